@@ -15,6 +15,22 @@ const preview = {
       },
     },
   },
+  globalTypes: {
+    astroUrl: {
+      description: 'URL Astro components are rendered at (Astro.url)',
+      toolbar: {
+        title: 'URL',
+        icon: 'link',
+        items: [
+          { value: '', title: 'Story default' },
+          { value: '/', title: '/' },
+          { value: '/about', title: '/about' },
+          { value: '/components', title: '/components' },
+        ],
+        dynamicTitle: true,
+      },
+    },
+  },
 };
 
 export default preview;
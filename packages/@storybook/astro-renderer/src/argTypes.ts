@@ -0,0 +1,41 @@
+import { extractComponentProps } from 'storybook/internal/docs-tools';
+import type { StrictArgTypes } from 'storybook/internal/types';
+import type { $FIXME } from './types';
+
+/**
+ * Infers the argTypes of an Astro component from the `__docgenInfo` the framework
+ * attaches to it, describing the props its frontmatter declares. Components of
+ * framework renderers are left to their own renderer.
+ */
+export const extractArgTypes = (component: $FIXME): StrictArgTypes | null => {
+  if (!component?.isAstroComponentFactory) {
+    return null;
+  }
+
+  const props = extractComponentProps(component, 'props');
+
+  if (props.length === 0) {
+    return null;
+  }
+
+  return Object.fromEntries(
+    props.map(({ propDef, docgenInfo }) => {
+      const { name, description, defaultValue, sbType, required, jsDocTags } = propDef;
+
+      return [
+        name,
+        {
+          name,
+          description,
+          type: { required, ...sbType },
+          table: {
+            // Unions read better as written than by their kind
+            type: { summary: docgenInfo.tsType?.raw ?? docgenInfo.tsType?.name },
+            jsDocTags,
+            defaultValue: defaultValue ?? undefined
+          }
+        }
+      ];
+    })
+  );
+};
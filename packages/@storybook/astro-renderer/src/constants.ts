@@ -0,0 +1,10 @@
+export const ADDON_ID = 'storybook/astro';
+export const PANEL_ID = `${ADDON_ID}/panel`;
+
+// Emitted by the renderer after each Astro render with the cookies the component set
+export const COOKIES_EVENT = `${ADDON_ID}/cookies`;
+
+export type CookiesEventPayload = {
+  storyId: string;
+  cookies: string[];
+};
@@ -1,5 +1,29 @@
 // import 'astro/runtime/server/astro-island';
+import { enhanceArgTypes, extractComponentDescription } from 'storybook/internal/docs-tools';
+import { extractArgTypes } from './argTypes.ts';
 
-export const parameters = { renderer: 'astro' };
+export const parameters = {
+  renderer: 'astro',
+  docs: { extractArgTypes, extractComponentDescription }
+};
+
+// Infers argTypes from the props Astro components declare
+export const argTypesEnhancers = [enhanceArgTypes];
+
+// URL Astro components are rendered at. The toolbar stays hidden until a
+// project lists URLs under `globalTypes.astroUrl.toolbar.items` in its preview.
+export const globalTypes = {
+  astroUrl: {
+    description: 'URL Astro components are rendered at (Astro.url)',
+    toolbar: {
+      title: 'URL',
+      icon: 'link',
+      items: [],
+      dynamicTitle: true
+    }
+  }
+};
+
+export const initialGlobals = { astroUrl: '' };
 
 export { renderToCanvas, render } from './render.tsx';
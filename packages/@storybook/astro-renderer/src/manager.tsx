@@ -0,0 +1,84 @@
+import React from 'react';
+import { addons, types, useAddonState, useChannel, useStorybookState } from 'storybook/manager-api';
+import { AddonPanel, EmptyTabContent, Table } from 'storybook/internal/components';
+import { ADDON_ID, COOKIES_EVENT, PANEL_ID, type CookiesEventPayload } from './constants';
+
+type ParsedCookie = {
+  name: string;
+  value: string;
+  attributes: string;
+};
+
+/**
+ * Splits a `Set-Cookie` header value into its name, decoded value and attributes.
+ */
+function parseSetCookie(header: string): ParsedCookie {
+  const [pair, ...attributes] = header.split(';').map((part) => part.trim());
+  const separatorIndex = pair.indexOf('=');
+  const name = pair.slice(0, separatorIndex);
+  const rawValue = pair.slice(separatorIndex + 1);
+  let value = rawValue;
+
+  try {
+    value = decodeURIComponent(rawValue);
+  } catch {
+    // Keep the raw value when it isn't URI-encoded
+  }
+
+  return { name, value, attributes: attributes.join('; ') };
+}
+
+/**
+ * Lists the cookies the current story's Astro component set through `Astro.cookies`.
+ */
+function CookiesPanel({ active }: { active: boolean }) {
+  const { storyId } = useStorybookState();
+  const [payload, setPayload] = useAddonState<CookiesEventPayload | null>(ADDON_ID, null);
+
+  useChannel({ [COOKIES_EVENT]: setPayload });
+
+  const cookies = payload?.storyId === storyId ? payload.cookies.map(parseSetCookie) : [];
+
+  return (
+    <AddonPanel active={active}>
+      {cookies.length === 0 ? (
+        <EmptyTabContent
+          title="No cookies set"
+          description="Cookies set by the component through Astro.cookies are listed here."
+        />
+      ) : (
+        <Table>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Value</th>
+              <th>Attributes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {cookies.map((cookie) => (
+              <tr key={cookie.name}>
+                <td>
+                  <code>{cookie.name}</code>
+                </td>
+                <td>
+                  <code>{cookie.value}</code>
+                </td>
+                <td>{cookie.attributes}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      )}
+    </AddonPanel>
+  );
+}
+
+addons.register(ADDON_ID, () => {
+  addons.add(PANEL_ID, {
+    type: types.PANEL,
+    title: 'Astro Cookies',
+    match: ({ viewMode }) => viewMode === 'story',
+    render: ({ active }) => <CookiesPanel active={Boolean(active)} />
+  });
+});
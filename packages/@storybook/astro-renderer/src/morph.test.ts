@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import { morphChildren, type MorphHooks } from './morph';
+
+const createHooks = (hydrated: HTMLElement[] = []) =>
+  ({
+    adoptNode: vi.fn((node: Node) => document.importNode(node, true)),
+    onInsert: vi.fn(),
+    onRemove: vi.fn(),
+    isHydrated: (island: HTMLElement) => hydrated.includes(island)
+  }) satisfies MorphHooks;
+
+const createContainer = (html: string) => {
+  const container = document.createElement('div');
+
+  container.innerHTML = html;
+
+  return container;
+};
+
+const morph = (target: HTMLElement, html: string, hooks: MorphHooks = createHooks()) => {
+  morphChildren(target, createContainer(html), hooks);
+};
+
+describe('morphChildren', () => {
+  it('updates matching nodes in place', () => {
+    const target = createContainer('<p class="old">Hello</p><span>World</span>');
+    const paragraph = target.querySelector('p');
+    const text = paragraph!.firstChild;
+
+    morph(target, '<p class="new" title="greeting">Hi</p><span>World</span>');
+
+    expect(target.innerHTML).toBe('<p class="new" title="greeting">Hi</p><span>World</span>');
+    expect(target.querySelector('p')).toBe(paragraph);
+    expect(paragraph!.firstChild).toBe(text);
+  });
+
+  it('inserts and removes unmatched nodes', () => {
+    const target = createContainer('<p>One</p><div>Two</div><span>Three</span>');
+    const hooks = createHooks();
+
+    morph(target, '<p>One</p><section>New</section>', hooks);
+
+    expect(target.innerHTML).toBe('<p>One</p><section>New</section>');
+    expect(hooks.adoptNode).toHaveBeenCalledTimes(1);
+    expect(hooks.onInsert).toHaveBeenCalledWith(target.querySelector('section'));
+    expect(hooks.onRemove).toHaveBeenCalledTimes(2);
+  });
+
+  it('matches elements by id when they move', () => {
+    const target = createContainer('<li id="a">A</li><li id="b">B</li>');
+    const [a, b] = Array.from(target.children);
+
+    morph(target, '<li id="b">B</li><li id="a">A</li>');
+
+    expect(target.innerHTML).toBe('<li id="b">B</li><li id="a">A</li>');
+    expect(target.querySelector('#b')).toBe(b);
+    expect(target.querySelector('#a')).not.toBe(a);
+  });
+
+  it('replaces changed scripts', () => {
+    const target = createContainer('<script type="application/json">1</script>');
+    const script = target.querySelector('script');
+    const hooks = createHooks();
+
+    morph(target, '<script type="application/json">2</script>', hooks);
+
+    expect(target.querySelector('script')).not.toBe(script);
+    expect(target.querySelector('script')!.textContent).toBe('2');
+    expect(hooks.onRemove).toHaveBeenCalledWith(script);
+    expect(hooks.onInsert).toHaveBeenCalledWith(target.querySelector('script'));
+  });
+
+  it('only passes new props to hydrated islands', () => {
+    const island = '<astro-island component-url="/Counter.js" props="{&quot;count&quot;:1}"><button>1</button></astro-island>';
+    const target = createContainer(island);
+    const live = target.querySelector('astro-island')!;
+
+    morph(
+      target,
+      '<astro-island component-url="/Counter.js" props="{&quot;count&quot;:2}"><button>2</button></astro-island>',
+      createHooks([live as HTMLElement])
+    );
+
+    expect(target.querySelector('astro-island')).toBe(live);
+    expect(live.getAttribute('props')).toBe('{"count":2}');
+    expect(live.querySelector('button')!.textContent).toBe('1');
+  });
+
+  it('replaces islands of another component', () => {
+    const target = createContainer('<astro-island component-url="/Counter.js"></astro-island>');
+    const live = target.querySelector('astro-island');
+
+    morph(target, '<astro-island component-url="/Accordion.js"></astro-island>');
+
+    expect(target.querySelector('astro-island')).not.toBe(live);
+    expect(target.querySelector('astro-island')!.getAttribute('component-url')).toBe('/Accordion.js');
+  });
+
+  it('keeps what the user changed unless the server HTML changes it', () => {
+    const target = createContainer('<details><summary>More</summary></details><input value="a">');
+    const input = target.querySelector('input')!;
+
+    target.querySelector('details')!.setAttribute('open', '');
+    input.value = 'typed';
+
+    morph(target, '<details><summary>More</summary></details><input value="a">');
+
+    expect(target.querySelector('details')!.hasAttribute('open')).toBe(true);
+    expect(input.value).toBe('typed');
+
+    morph(target, '<details><summary>More</summary></details><input value="b">');
+
+    expect(input.value).toBe('b');
+  });
+});
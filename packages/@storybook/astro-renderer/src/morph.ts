@@ -0,0 +1,189 @@
+export type MorphHooks = {
+  /** Creates the live node inserted for a node of the new HTML. */
+  adoptNode: (node: Node) => Node;
+  /** Called after a node created by `adoptNode` is inserted. */
+  onInsert: (node: Node) => void;
+  /** Called before a live node is removed. */
+  onRemove: (node: Node) => void;
+  /** Whether an island has been hydrated; its framework owns the DOM inside it. */
+  isHydrated: (island: HTMLElement) => boolean;
+};
+
+// Attributes reflecting state the user changes in the canvas. The server HTML
+// can set them, but morphing never removes them.
+const USER_STATE_ATTRIBUTES: Record<string, string[]> = {
+  DETAILS: ['open'],
+  DIALOG: ['open']
+};
+
+/**
+ * Patches the children of `target` to match the children of `source` (freshly
+ * rendered server HTML), instead of replacing them. Nodes are matched by `id`
+ * or else by position and tag name; matched nodes are updated in place and keep
+ * their state (focus, scroll position, listeners), unmatched ones are inserted
+ * or removed. Hydrated islands are not descended into: they only receive their
+ * new props, which Astro's island runtime hydrates again.
+ */
+export function morphChildren(target: Node, source: Node, hooks: MorphHooks): void {
+  let current = target.firstChild;
+
+  Array.from(source.childNodes).forEach((next) => {
+    const match = findMatch(current, next);
+
+    if (!match) {
+      const adopted = hooks.adoptNode(next);
+
+      target.insertBefore(adopted, current);
+      hooks.onInsert(adopted);
+
+      return;
+    }
+
+    while (current && current !== match) {
+      const sibling: ChildNode | null = current.nextSibling;
+
+      removeNode(current, hooks);
+      current = sibling;
+    }
+
+    current = morphNode(match, next, hooks).nextSibling;
+  });
+
+  while (current) {
+    const sibling: ChildNode | null = current.nextSibling;
+
+    removeNode(current, hooks);
+    current = sibling;
+  }
+}
+
+/**
+ * Finds the live node `next` is patched into: the sibling with the same `id`,
+ * or else the node at the current position if it is of the same kind.
+ */
+function findMatch(start: ChildNode | null, next: Node): ChildNode | null {
+  const id = next instanceof Element ? next.id : '';
+
+  if (id) {
+    for (let node = start; node; node = node.nextSibling) {
+      if (node instanceof Element && node.id === id && isSameKind(node, next)) {
+        return node;
+      }
+    }
+
+    return null;
+  }
+
+  // Elements with an id are kept for the node with that id
+  if (!start || (start instanceof Element && start.id) || !isSameKind(start, next)) {
+    return null;
+  }
+
+  return start;
+}
+
+function isSameKind(live: Node, next: Node): boolean {
+  if (live.nodeType !== next.nodeType || live.nodeName !== next.nodeName) {
+    return false;
+  }
+
+  // An island rendering another component can't be patched into this one
+  if (live instanceof Element && live.localName === 'astro-island') {
+    const nextIsland = next as Element;
+
+    return ['component-url', 'component-export', 'renderer-url'].every(
+      (name) => live.getAttribute(name) === nextIsland.getAttribute(name)
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Updates a live node to match `next`. Returns the live node, which is a new
+ * one when `next` can't be patched in (changed scripts).
+ */
+function morphNode(live: ChildNode, next: Node, hooks: MorphHooks): ChildNode {
+  if (!(live instanceof Element)) {
+    if (live.nodeValue !== next.nodeValue) {
+      live.nodeValue = next.nodeValue;
+    }
+
+    return live;
+  }
+
+  if (live.isEqualNode(next)) {
+    return live;
+  }
+
+  // A changed script has to run again, which takes a new element
+  if (live instanceof HTMLScriptElement) {
+    const replacement = hooks.adoptNode(next) as ChildNode;
+
+    hooks.onRemove(live);
+    live.replaceWith(replacement);
+    hooks.onInsert(replacement);
+
+    return replacement;
+  }
+
+  const nextElement = next as Element;
+
+  if (live instanceof HTMLElement && live.localName === 'astro-island' && hooks.isHydrated(live)) {
+    const props = nextElement.getAttribute('props');
+
+    if (props !== null && props !== live.getAttribute('props')) {
+      live.setAttribute('props', props);
+    }
+
+    return live;
+  }
+
+  // Before the attributes, which hold the previous defaults
+  syncFormState(live, nextElement);
+  syncAttributes(live, nextElement);
+  morphChildren(live, nextElement, hooks);
+
+  return live;
+}
+
+function syncAttributes(live: Element, next: Element): void {
+  const preserved = USER_STATE_ATTRIBUTES[live.nodeName] ?? [];
+
+  Array.from(live.attributes).forEach(({ name }) => {
+    if (!next.hasAttribute(name) && !preserved.includes(name)) {
+      live.removeAttribute(name);
+    }
+  });
+
+  Array.from(next.attributes).forEach(({ name, value }) => {
+    if (live.getAttribute(name) !== value) {
+      live.setAttribute(name, value);
+    }
+  });
+}
+
+/**
+ * Form controls keep what the user entered unless the server HTML changes
+ * their value.
+ */
+function syncFormState(live: Element, next: Element): void {
+  if (live instanceof HTMLInputElement && next instanceof HTMLInputElement) {
+    if (live.defaultValue !== next.defaultValue) {
+      live.value = next.defaultValue;
+    }
+
+    if (live.defaultChecked !== next.defaultChecked) {
+      live.checked = next.defaultChecked;
+    }
+  } else if (live instanceof HTMLTextAreaElement && next instanceof HTMLTextAreaElement) {
+    if (live.defaultValue !== next.defaultValue) {
+      live.value = next.defaultValue;
+    }
+  }
+}
+
+function removeNode(node: ChildNode, hooks: MorphHooks): void {
+  hooks.onRemove(node);
+  node.remove();
+}
@@ -12,3 +12,7 @@ export const previewAnnotations = async (input = [], _options: $FIXME) => {
     .concat(input)
     .concat([join(__dirname, './entry-preview.ts')]);
 };
+
+export const managerEntries = async (input: string[] = []) => {
+  return [...input, join(__dirname, './manager.tsx')];
+};
@@ -1,9 +1,27 @@
-import { simulateDOMContentLoaded, simulatePageLoad } from 'storybook/internal/preview-api';
-import type { ArgsStoryFn, RenderContext } from 'storybook/internal/types';
+import { FORCE_RE_RENDER } from 'storybook/internal/core-events';
+import { addons, simulateDOMContentLoaded, simulatePageLoad } from 'storybook/internal/preview-api';
+import type { ArgsStoryFn, RenderContext, TeardownRenderToCanvas } from 'storybook/internal/types';
 import { dedent } from 'ts-dedent';
 import 'astro:scripts/page.js';
-import type { $FIXME, RenderComponentInput, RenderPromise, RenderResponseMessage } from './types';
+import type {
+  $FIXME,
+  AstroParameters,
+  RenderCancelMessage,
+  RenderComponentInput,
+  RenderLayoutInput,
+  RenderError,
+  RenderInvalidateMessage,
+  RenderPayloadMessage,
+  RenderPromise,
+  RenderRequestInput,
+  RenderResponseMessage,
+  SlotValue
+} from './types';
 import * as renderers from 'virtual:storybook-renderer-fallback';
+import serializers from 'virtual:astro-arg-serializers';
+import { COOKIES_EVENT, type CookiesEventPayload } from './constants';
+import { morphChildren } from './morph';
+import { createArgsKey, serializeArgs, serializeSlots, type SerializedSlots } from './serialization';
 
 // Types for better type safety
 type AstroComponent = {
@@ -18,14 +36,71 @@ type AlpineJS = {
 
 type FallbackRenderer = {
   render: (args: Record<string, unknown>, context: $FIXME) => unknown;
-  renderToCanvas: (ctx: RenderContext<$FIXME>, canvasElement: $FIXME) => void | Promise<void>;
+  renderToCanvas: (
+    ctx: RenderContext<$FIXME>,
+    canvasElement: $FIXME
+  ) => void | TeardownRenderToCanvas | Promise<void | TeardownRenderToCanvas>;
 };
 
 type RendererRegistry = Record<string, FallbackRenderer>;
 
+// Where server HTML is placed: the canvas, or the shadow root of an isolated story
+type RenderRoot = HTMLElement | ShadowRoot;
+
 // Cache for pending Astro component render requests
 const messages = new Map<string, RenderPromise>();
 
+// In-flight render requests keyed by payload, shared by identical renders
+const inflightRequests = new Map<string, InflightRenderRequest>();
+
+// Latest Astro render of each canvas. Starting a new render aborts the previous one,
+// so a slow response for outdated args can't overwrite a newer one.
+const canvasRenders = new WeakMap<HTMLElement, AbortController>();
+
+// Files of the components (layout and slot components included) rendered in each
+// canvas, to tell which stories to re-render when the server reports changes
+const canvasModules = new Map<HTMLElement, Set<string>>();
+
+// Islands hydrated in each render root, in hydration order (an island hydrates
+// after the island it is nested in)
+const canvasIslands = new WeakMap<RenderRoot, Set<HTMLElement>>();
+
+// Shadow roots of isolated stories with the global stylesheets they adopt. Their
+// styles are synced again when Vite updates styles.
+const shadowRoots = new Map<ShadowRoot, AstroParameters['adoptStyles']>();
+
+// Stylesheets the page links itself. In static builds, the others are linked by
+// Vite with the chunks of stories, and hold the styles of their components.
+const pageStylesheets = new Set<Element>(
+  typeof document === 'undefined' ? [] : document.querySelectorAll('link[rel="stylesheet"]')
+);
+
+type InflightRenderRequest = {
+  id: string;
+  key: string;
+  promise: Promise<RenderResponseMessage['data']>;
+  /** Renders waiting for this request; it is cancelled once all of them are aborted */
+  consumers: number;
+};
+
+// Marks elements moved into the preview iframe's <head> by document rendering
+const DOCUMENT_HEAD_ATTRIBUTE = 'data-astro-document-head';
+
+// Marks the element in the canvas holding the shadow root of an isolated story
+const SHADOW_HOST_ATTRIBUTE = 'data-astro-shadow-host';
+
+// Route of the render server in static builds emitted with the `renderServer`
+// framework option; undefined otherwise
+const RENDER_ENDPOINT: string | undefined = import.meta.env.STORYBOOK_ASTRO_RENDER_ENDPOINT;
+
+// Pre-rendered HTML of static builds by file, fetched when a story first shows it
+const prerenderedHtml = new Map<string, Promise<string>>();
+
+// Keys of the module scripts executed in this page (see `getModuleScriptKey`).
+// Astro's processed scripts run once per page, however often the components
+// using them are rendered.
+const executedModuleScripts = new Set<string>();
+
 /**
  * Renders a Storybook story component with appropriate handling for different component types.
  * 
@@ -140,29 +215,42 @@ function cloneElementWithArgs(element: HTMLElement, args: Record<string, unknown
  * Renders a story component to the Storybook canvas element.
  * Handles different types of rendered elements including Astro components,
  * strings, DOM nodes, and framework-specific components.
+ *
+ * Returns the teardown Storybook calls when the story is left: framework
+ * renderers unmount their roots, and Astro stories unmount their islands.
  */
 export async function renderToCanvas(
   ctx: RenderContext<$FIXME>,
   canvasElement: $FIXME
-): Promise<void> {
+): Promise<void | TeardownRenderToCanvas> {
   const { storyFn, kind, name, showMain, showError, forceRemount, storyContext } = ctx;
   const renderer = ctx.storyContext.parameters?.renderer as string | undefined;
   const typedRenderers = renderers as RendererRegistry;
 
+  // Head content from a previous document-mode story must not leak into other stories.
+  // Document-mode stories replace it once their new HTML has arrived.
+  if (!isDocumentStory(storyContext.parameters)) {
+    removeDocumentHead();
+  }
+
+  // Set again if this story renders an Astro component
+  canvasModules.delete(canvasElement);
+
   // Delegate to framework-specific renderers BEFORE calling storyFn().
   // Framework renderers (React, Solid, Vue, etc.) manage their own reactive
   // roots and call storyFn() internally. Calling storyFn() here first would
   // create orphaned reactive effects that corrupt the framework's state.
   if (renderer && Object.hasOwn(typedRenderers, renderer)) {
     showMain();
-    await typedRenderers[renderer].renderToCanvas(ctx, canvasElement);
+    const teardown = await typedRenderers[renderer].renderToCanvas(ctx, canvasElement);
+
     // Apply Vite styles for frameworks that need it (Svelte)
     // Vue handles its own styles and this interferes with its CSS processing
     if (renderer === 'svelte') {
       applyAstroStyles();
     }
 
-    return;
+    return teardown;
   }
 
   const element = storyFn();
@@ -171,9 +259,12 @@ export async function renderToCanvas(
 
   // Handle Astro components with server-side rendering
   if (isAstroComponent(element)) {
-    await renderAstroToCanvas(element, storyContext.args, canvasElement, storyContext);
+    await renderAstroToCanvas(element, storyContext.args, canvasElement, storyContext, forceRemount);
 
-    return;
+    return () => {
+      unmountIslands(findRenderRoot(canvasElement));
+      canvasModules.delete(canvasElement);
+    };
   }
 
   // Handle string content
@@ -218,21 +309,53 @@ function isAstroComponent(element: unknown): element is AstroComponent {
 /**
  * Renders an Astro component to the canvas using server-side rendering.
  *
- * In static builds, checks for build-time pre-rendered HTML (injected by
- * vitePluginAstroBuildPrerender) before falling back to the HMR path.
+ * In static builds, fetches the HTML file pre-rendered at build time (referenced
+ * by vitePluginAstroBuildPrerender) before falling back to the HMR path. Args
+ * changed through Controls select the variant pre-rendered for them, or are
+ * rendered by the render server if the build has one.
+ *
+ * Re-renders of a story (e.g. arg changes) with `parameters.astro.updateStrategy`
+ * set to `'morph'` patch the canvas instead of replacing its content. Stories
+ * with `parameters.astro.isolation` set to `'shadow'` render into a shadow root.
  */
 async function renderAstroToCanvas(
   element: AstroComponent,
   args: Record<string, unknown>,
   canvasElement: $FIXME,
-  storyContext?: $FIXME
+  storyContext?: $FIXME,
+  forceRemount = true
 ): Promise<void> {
+  const astroParameters: AstroParameters = storyContext?.parameters?.astro ?? {};
+  const layout = resolveLayout(astroParameters.layout);
+  const isDocument = isDocumentStory(storyContext?.parameters);
+
   // In static builds, use build-time pre-rendered HTML if available
-  const prerenderedHtml = storyContext?.parameters?.__astroPrerendered;
+  const prerenderedFile: string | undefined = storyContext?.parameters?.__astroPrerendered;
+
+  const variantFile = prerenderedFile && !import.meta.hot ? findPrerenderedVariant(storyContext) : undefined;
+
+  if (prerenderedFile && !import.meta.hot && !(variantFile === null && RENDER_ENDPOINT)) {
+    const controller = startCanvasRender(canvasElement, storyContext?.abortSignal);
+    const html = await fetchPrerenderedHtml(variantFile ?? prerenderedFile);
+
+    // A newer render of this canvas has started in the meantime
+    if (controller.signal.aborted) {
+      return;
+    }
+
+    if (canvasRenders.get(canvasElement) === controller) {
+      canvasRenders.delete(canvasElement);
+    }
 
-  if (prerenderedHtml && !import.meta.hot) {
-    canvasElement.innerHTML = prerenderedHtml;
-    activateScriptTags(canvasElement);
+    const root = resolveRenderRoot(canvasElement, astroParameters);
+
+    applyHtmlToCanvas(html, root, isDocument);
+
+    if (variantFile === null) {
+      root.prepend(createMissingVariantNotice(Object.keys(astroParameters.prerenderArgs ?? {})));
+    }
+
+    emitCookies(storyContext?.id, []);
 
     return;
   }
@@ -242,15 +365,441 @@ async function renderAstroToCanvas(
   }
 
   const { slots = {}, ...componentArgs } = args;
-  const { html } = await renderAstroComponent({
+  const data: RenderComponentInput = {
     component: element.moduleId,
-    args: componentArgs,
-    slots: slots as Record<string, string>
+    args: serializeArgs(componentArgs, serializers),
+    slots: serializeSlots(slots as Record<string, SlotValue>, serializers),
+    document: isDocument,
+    layout,
+    request: resolveRequest(astroParameters, storyContext?.globals),
+    content: astroParameters.content
+  };
+  const controller = startCanvasRender(canvasElement, storyContext?.abortSignal);
+
+  canvasModules.set(canvasElement, collectRenderModules(data));
+
+  try {
+    const { html, cookies = [], error } = await renderAstroComponent(data, { signal: controller.signal });
+
+    // A newer render of this canvas has started in the meantime
+    if (controller.signal.aborted) {
+      return;
+    }
+
+    if (error) {
+      throw new AstroRenderError(error);
+    }
+
+    applyAstroStyles();
+    applyHtmlToCanvas(
+      html,
+      resolveRenderRoot(canvasElement, astroParameters),
+      isDocument,
+      astroParameters.updateStrategy === 'morph' && !forceRemount
+    );
+    emitCookies(storyContext?.id, cookies);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return;
+    }
+
+    throw error;
+  } finally {
+    if (canvasRenders.get(canvasElement) === controller) {
+      canvasRenders.delete(canvasElement);
+    }
+  }
+}
+
+/**
+ * Error thrown by an Astro component while rendering on the server. Thrown from
+ * `renderToCanvas`, so Storybook shows it on its error screen and marks the
+ * story as errored. The error screen shows the message as heading and the
+ * stack as details, which is why the location, code frame and hint go there.
+ */
+class AstroRenderError extends Error {
+  readonly renderError: RenderError;
+
+  constructor(renderError: RenderError) {
+    super(renderError.message);
+
+    const { loc, frame, hint, stack, component } = renderError;
+    const location = loc ? `${loc.file}:${loc.line}:${loc.column}` : component;
+
+    this.name = renderError.name ?? 'AstroRenderError';
+    this.renderError = renderError;
+    this.stack = [
+      `Error rendering ${location}`,
+      frame,
+      hint && `Hint: ${hint}`,
+      // The server stack starts with the message, which is already the heading
+      stack?.split('\n').filter((line) => /^\s+at /.test(line)).join('\n')
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+}
+
+/**
+ * Registers a new Astro render for the canvas, aborting the one in progress.
+ * The render is also aborted when Storybook aborts the story render.
+ */
+function startCanvasRender(canvasElement: HTMLElement, storySignal?: AbortSignal): AbortController {
+  const controller = new AbortController();
+
+  canvasRenders.get(canvasElement)?.abort();
+  canvasRenders.set(canvasElement, controller);
+
+  if (storySignal?.aborted) {
+    controller.abort();
+  } else {
+    storySignal?.addEventListener('abort', () => controller.abort(), { once: true });
+  }
+
+  return controller;
+}
+
+/**
+ * Collects the files of the components a render request uses.
+ */
+function collectRenderModules({ component, layout, slots }: RenderComponentInput): Set<string> {
+  const modules = new Set([component]);
+
+  if (layout) {
+    modules.add(layout.component);
+  }
+
+  const collectSlotModules = (slotsToCollect: SerializedSlots) => {
+    Object.values(slotsToCollect)
+      .flat()
+      .forEach((content) => {
+        if (typeof content !== 'string') {
+          modules.add(content.component);
+          collectSlotModules(content.slots);
+        }
+      });
+  };
+
+  collectSlotModules(slots);
+
+  return modules;
+}
+
+/**
+ * Re-renders the stories shown with their current args when a component they
+ * render, or a module it imports, has changed on the server.
+ */
+function rerenderInvalidatedStories({ files }: RenderInvalidateMessage['data']): void {
+  const changedFiles = new Set(files);
+  let isAffected = false;
+
+  // In-flight renders may have loaded the old code, so new renders must not share them
+  inflightRequests.clear();
+
+  canvasModules.forEach((modules, canvasElement) => {
+    if (!canvasElement.isConnected) {
+      canvasModules.delete(canvasElement);
+
+      return;
+    }
+
+    isAffected ||= Array.from(modules).some((module) => changedFiles.has(module));
+  });
+
+  // Re-renders every story on the page (one in story mode, all of them in docs mode)
+  if (isAffected) {
+    addons.getChannel().emit(FORCE_RE_RENDER);
+  }
+}
+
+/**
+ * Reports the cookies set during a render to the Astro Cookies panel.
+ */
+function emitCookies(storyId: string, cookies: string[]): void {
+  addons.getChannel().emit(COOKIES_EVENT, { storyId, cookies } satisfies CookiesEventPayload);
+}
+
+/**
+ * Checks whether a story renders as a full HTML document, either explicitly
+ * or because it is wrapped in a layout.
+ */
+function isDocumentStory(parameters: $FIXME): boolean {
+  const astroParameters: AstroParameters = parameters?.astro ?? {};
+
+  return Boolean(astroParameters.document || astroParameters.layout);
+}
+
+/**
+ * Normalizes the `parameters.astro.layout` value into the shape sent to the server.
+ * Accepts either an imported layout component or `{ component, args }`.
+ */
+function resolveLayout(layout: AstroParameters['layout']): RenderLayoutInput | undefined {
+  if (!layout) {
+    return undefined;
+  }
+
+  const { component, args = {} } = 'component' in layout ? layout : { component: layout };
+
+  if (!isAstroComponent(component) || !component.moduleId) {
+    throw new Error('parameters.astro.layout must be an Astro component');
+  }
+
+  return { component: component.moduleId, args: serializeArgs(args, serializers) };
+}
+
+/**
+ * Collects the request context for the render from `parameters.astro`.
+ * The `astroUrl` global (set from the toolbar) overrides the story's URL.
+ */
+function resolveRequest(astroParameters: AstroParameters, globals: $FIXME): RenderRequestInput {
+  const { url, headers, cookies, params, locals } = astroParameters;
+
+  return {
+    url: globals?.astroUrl || url,
+    headers,
+    cookies,
+    params,
+    locals: locals && serializeArgs(locals, serializers)
+  };
+}
+
+/**
+ * Writes server-rendered HTML into the canvas. In document mode the HTML is a
+ * complete page: its <head> content is moved into the preview iframe's head
+ * (or the shadow root of an isolated story) and only the <body> content is
+ * placed in the canvas.
+ *
+ * With `morph`, the canvas content is patched to match the HTML (see
+ * `morphChildren`) rather than replaced, so unchanged nodes and hydrated
+ * islands keep their state.
+ */
+function applyHtmlToCanvas(html: string, root: RenderRoot, isDocument: boolean, morph = false): void {
+  if (!morph) {
+    unmountIslands(root);
+  }
+
+  trackIslands(root);
+
+  if (!isDocument) {
+    if (morph) {
+      const template = document.createElement('template');
+
+      template.innerHTML = html;
+      morphCanvas(root, template.content);
+
+      return;
+    }
+
+    root.innerHTML = html;
+    activateScriptTags(root);
+
+    return;
+  }
+
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  const headNodes = Array.from(parsed.head.children).map((child) => {
+    const node = child instanceof HTMLScriptElement && shouldExecuteScript(child)
+      ? createExecutableScript(child)
+      : (document.importNode(child, true) as HTMLElement);
+
+    node.setAttribute(DOCUMENT_HEAD_ATTRIBUTE, '');
+
+    return node;
   });
 
-  applyAstroStyles();
-  canvasElement.innerHTML = html;
-  activateScriptTags(canvasElement);
+  removeDocumentHead();
+
+  if (!(root instanceof ShadowRoot)) {
+    document.head.append(...headNodes);
+    headNodes.forEach(recordExecutedScripts);
+  }
+
+  if (morph) {
+    morphCanvas(root, parsed.body);
+  } else {
+    root.innerHTML = parsed.body.innerHTML;
+    activateScriptTags(root);
+  }
+
+  // Head content of an isolated story goes first in its shadow root
+  if (root instanceof ShadowRoot) {
+    root.prepend(...headNodes);
+    headNodes.forEach(recordExecutedScripts);
+  }
+}
+
+/**
+ * Patches the canvas to match freshly rendered HTML. Inserted content runs its
+ * scripts like a replaced canvas would; removed islands are unmounted.
+ */
+function morphCanvas(root: RenderRoot, source: Node): void {
+  const islands = canvasIslands.get(root);
+
+  morphChildren(root, source, {
+    adoptNode: (node) => {
+      const adopted = document.importNode(node, true);
+
+      if (adopted instanceof HTMLScriptElement) {
+        return shouldExecuteScript(adopted) ? createExecutableScript(adopted) : adopted;
+      }
+
+      if (adopted instanceof Element) {
+        activateScriptTags(adopted);
+      }
+
+      return adopted;
+    },
+    onInsert: recordExecutedScripts,
+    onRemove: (node) => unmountIslands(root, node),
+    isHydrated: (island) => Boolean(islands?.has(island))
+  });
+}
+
+/**
+ * Records the islands hydrated in a render root. Astro's `<astro-island>`
+ * dispatches `astro:hydrate` once its framework component is mounted; the event
+ * doesn't bubble, so it is caught in the capture phase.
+ */
+function trackIslands(root: RenderRoot): void {
+  if (canvasIslands.has(root)) {
+    return;
+  }
+
+  const islands = new Set<HTMLElement>();
+
+  canvasIslands.set(root, islands);
+  root.addEventListener(
+    'astro:hydrate',
+    (event) => islands.add(event.target as HTMLElement),
+    { capture: true }
+  );
+}
+
+/**
+ * Unmounts the islands of a render root before its content is replaced or the
+ * story is left, the way Astro does for view transitions: the framework renderers
+ * (React, Vue, Svelte, Solid, Preact) unmount their component on `astro:unmount`.
+ * Nested islands are unmounted before the island containing them. Islands still
+ * waiting for their `client:*` directive, or still loading, are unmounted as soon
+ * as they hydrate; Astro doesn't hydrate islands that are no longer connected.
+ * Given a `subtree`, only the islands inside it are unmounted (content removed
+ * while morphing).
+ */
+function unmountIslands(root: RenderRoot, subtree: Node = root): void {
+  const islands = canvasIslands.get(root);
+
+  if (!islands || !(subtree instanceof Element || subtree instanceof DocumentFragment)) {
+    return;
+  }
+
+  const unmount = (island: HTMLElement) => island.dispatchEvent(new CustomEvent('astro:unmount'));
+  const subtreeIslands = subtree instanceof HTMLElement && subtree.localName === 'astro-island' ? [subtree] : [];
+
+  subtreeIslands.concat(Array.from(subtree.querySelectorAll<HTMLElement>('astro-island'))).forEach((island) => {
+    if (!islands.has(island)) {
+      island.addEventListener('astro:hydrate', () => unmount(island), { once: true });
+    }
+  });
+
+  Array.from(islands)
+    .reverse()
+    .filter((island) => subtree.contains(island))
+    .forEach((island) => {
+      unmount(island);
+      islands.delete(island);
+    });
+}
+
+/**
+ * Returns where the HTML of a story goes. Isolated stories render into the
+ * shadow root of an element that replaces the canvas content, created on the
+ * first render; their styles are synced on every render.
+ */
+function resolveRenderRoot(canvasElement: HTMLElement, astroParameters: AstroParameters): RenderRoot {
+  if (astroParameters.isolation !== 'shadow') {
+    return canvasElement;
+  }
+
+  let shadowRoot = findRenderRoot(canvasElement);
+
+  if (!(shadowRoot instanceof ShadowRoot)) {
+    const host = document.createElement('div');
+
+    host.setAttribute(SHADOW_HOST_ATTRIBUTE, '');
+    shadowRoot = host.attachShadow({ mode: 'open' });
+    canvasElement.replaceChildren(host);
+  }
+
+  shadowRoots.set(shadowRoot, astroParameters.adoptStyles);
+  syncShadowStyles(shadowRoot, astroParameters.adoptStyles);
+
+  return shadowRoot;
+}
+
+/**
+ * Returns the shadow root of an isolated story shown in the canvas, or else
+ * the canvas itself.
+ */
+function findRenderRoot(canvasElement: HTMLElement): RenderRoot {
+  return canvasElement.querySelector(`:scope > [${SHADOW_HOST_ATTRIBUTE}]`)?.shadowRoot ?? canvasElement;
+}
+
+/**
+ * Gives a shadow root the component styles of the page, i.e. the style
+ * sub-modules of Astro, Vue and Svelte components in dev and the stylesheets
+ * of story chunks in builds, plus the global stylesheets listed in `adoptStyles`.
+ * The styles are copied into constructed stylesheets, since the page's own
+ * `<style>` and `<link>` elements don't apply inside a shadow root.
+ */
+function syncShadowStyles(shadowRoot: ShadowRoot, adoptStyles: AstroParameters['adoptStyles'] = []): void {
+  const elements = document.querySelectorAll<HTMLStyleElement | HTMLLinkElement>('style, link[rel="stylesheet"]');
+
+  shadowRoot.adoptedStyleSheets = Array.from(elements)
+    .filter((element) => {
+      const source = getStyleSource(element);
+
+      return (
+        (!import.meta.hot && element instanceof HTMLLinkElement && !pageStylesheets.has(element)) ||
+        /[?&]type=style(&|$)/.test(source) ||
+        adoptStyles.some((pattern) => (typeof pattern === 'string' ? source.includes(pattern) : pattern.test(source)))
+      );
+    })
+    .flatMap((element) => {
+      try {
+        const sheet = new CSSStyleSheet();
+        const css = element instanceof HTMLStyleElement
+          ? element.textContent ?? ''
+          : Array.from(element.sheet?.cssRules ?? [], (rule) => rule.cssText).join('\n');
+
+        sheet.replaceSync(css);
+
+        return [sheet];
+      } catch {
+        // Rules of cross-origin stylesheets can't be read
+        return [];
+      }
+    });
+}
+
+/**
+ * Identifies a stylesheet for `adoptStyles`: the URL of a `<link>`, or the
+ * module id Vite gives the `<style>` elements it injects in dev.
+ */
+function getStyleSource(element: HTMLStyleElement | HTMLLinkElement): string {
+  if (element instanceof HTMLLinkElement) {
+    return element.href;
+  }
+
+  return element.getAttribute('data-vite-dev-id') ?? '';
+}
+
+/**
+ * Removes head elements added by a previous document-mode render.
+ */
+function removeDocumentHead(): void {
+  document.head
+    .querySelectorAll(`[${DOCUMENT_HEAD_ATTRIBUTE}]`)
+    .forEach((element) => element.remove());
 }
 
 /**
@@ -311,39 +860,228 @@ function applyAstroStyles(): void {
  */
 function activateScriptTags(container: $FIXME): void {
   const scriptElements = container.querySelectorAll('script') as NodeListOf<HTMLScriptElement>;
-  
-  Array.from(scriptElements).forEach((oldScript: HTMLScriptElement) => {
-    const newScript = document.createElement('script');
-    
-    // Copy all attributes
-    Array.from(oldScript.attributes).forEach((attr: Attr) => {
-      newScript.setAttribute(attr.name, attr.value);
-    });
-    
-    // Copy script content
-    newScript.appendChild(document.createTextNode(oldScript.innerHTML));
-    
+  // A container that isn't in the page yet records its scripts once inserted
+  const activated = new Set<string>();
+
+  scriptElements.forEach((oldScript: HTMLScriptElement) => {
+    const key = getModuleScriptKey(oldScript);
+
+    if (!shouldExecuteScript(oldScript) || (key && activated.has(key))) {
+      return;
+    }
+
+    if (key) {
+      activated.add(key);
+    }
+
     // Replace old script with new executable one
+    const newScript = createExecutableScript(oldScript);
+
     oldScript.parentNode?.replaceChild(newScript, oldScript);
+    recordExecutedScripts(newScript);
   });
 }
 
+/**
+ * Identifies the module scripts of Astro's processed `<script>`s: by URL
+ * (`?astro&type=script` in dev), or by their code where Astro inlines them.
+ * Classic scripts (e.g. `is:inline`) have no key.
+ */
+function getModuleScriptKey(script: HTMLScriptElement): string | undefined {
+  if (script.type !== 'module') {
+    return undefined;
+  }
+
+  return script.src || `inline:${script.textContent}`;
+}
+
+/**
+ * Checks whether a rendered script should run. Module scripts run only the
+ * first time, as they would on a page: running them again would register event
+ * listeners and custom elements twice. Scripts that stay inert keep their place
+ * in the markup. Classic scripts run on every render.
+ */
+function shouldExecuteScript(script: HTMLScriptElement): boolean {
+  const key = getModuleScriptKey(script);
+
+  return !key || !executedModuleScripts.has(key);
+}
+
+/**
+ * Records the module scripts of a node as executed, once it is in the page and
+ * they have run.
+ */
+function recordExecutedScripts(node: Node): void {
+  const scripts = node instanceof HTMLScriptElement
+    ? [node]
+    : node instanceof Element
+      ? Array.from(node.querySelectorAll('script'))
+      : [];
+
+  scripts.forEach((script) => {
+    const key = getModuleScriptKey(script);
+
+    if (key && script.isConnected) {
+      executedModuleScripts.add(key);
+    }
+  });
+}
+
+/**
+ * Creates an executable copy of a script element that was inserted as markup.
+ */
+function createExecutableScript(oldScript: HTMLScriptElement): HTMLScriptElement {
+  const newScript = document.createElement('script');
+
+  // Copy all attributes
+  Array.from(oldScript.attributes).forEach((attr: Attr) => {
+    newScript.setAttribute(attr.name, attr.value);
+  });
+
+  // Copy script content
+  newScript.appendChild(document.createTextNode(oldScript.innerHTML));
+
+  return newScript;
+}
+
+
+/**
+ * Renders a component with the render server of a static build, through the
+ * same HTTP endpoint `storybook dev` serves.
+ */
+async function renderWithRenderServer(
+  data: RenderComponentInput,
+  endpoint: string,
+  signal?: AbortSignal
+): Promise<RenderResponseMessage['data']> {
+  // Relative to the page, so Storybooks served under a path reach their server
+  const response = await fetch(new URL(`.${endpoint}`, document.baseURI), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+    signal
+  });
+  const isJson = response.headers.get('Content-Type')?.includes('application/json');
+
+  // The render server answers errors in JSON too; anything else comes from a
+  // proxy or server in front of it
+  if (!isJson) {
+    const body = await response.text();
+
+    throw new Error(
+      `Unexpected response from the Astro render server at ${endpoint} (${response.status} ${response.statusText}): ${body.slice(0, 500)}`
+    );
+  }
+
+  const result = await response.json();
+
+  if (!response.ok && !result.error) {
+    throw new Error(
+      `Astro render server at ${endpoint} failed (${response.status} ${response.statusText}): ${JSON.stringify(result).slice(0, 500)}`
+    );
+  }
+
+  if (result.error) {
+    return { id: 'render-server', html: '', error: { component: data.component, ...result.error } };
+  }
+
+  return { id: 'render-server', html: result.html, cookies: result.cookies };
+}
+
+/**
+ * Fetches a pre-rendered HTML file of a static build. Files are content-hashed,
+ * so each is only fetched once per page.
+ */
+function fetchPrerenderedHtml(file: string): Promise<string> {
+  if (!prerenderedHtml.has(file)) {
+    // Relative to the page, so Storybooks served under a path find their files
+    const promise = fetch(new URL(file, document.baseURI)).then((response) => {
+      if (!response.ok) {
+        throw new Error(`Failed to load pre-rendered HTML ${file}: ${response.status} ${response.statusText}`);
+      }
+
+      return response.text();
+    });
+
+    // Retried on the next render
+    promise.catch(() => prerenderedHtml.delete(file));
+    prerenderedHtml.set(file, promise);
+  }
+
+  return prerenderedHtml.get(file)!;
+}
+
+/**
+ * Looks up the HTML file pre-rendered for the current args among the variants
+ * built from `parameters.astro.prerenderArgs`. Returns `undefined` when the args
+ * are the story's initial ones, and `null` when no variant matches them.
+ */
+function findPrerenderedVariant(storyContext: $FIXME): string | null | undefined {
+  const { args = {}, initialArgs = {}, parameters } = storyContext ?? {};
+  const names = Object.keys(parameters?.astro?.prerenderArgs ?? {});
+  const pick = (values: Record<string, unknown>, include: boolean) =>
+    Object.fromEntries(Object.entries(values).filter(([name]) => names.includes(name) === include));
+
+  if (createArgsKey(args, serializers) === createArgsKey(initialArgs, serializers)) {
+    return undefined;
+  }
+
+  // Args that have no pre-rendered values can't differ from the initial ones
+  if (createArgsKey(pick(args, false), serializers) !== createArgsKey(pick(initialArgs, false), serializers)) {
+    return null;
+  }
+
+  const variants: Record<string, string> = parameters?.__astroPrerenderedVariants ?? {};
+
+  return variants[createArgsKey(pick(args, true), serializers)] ?? null;
+}
+
+/**
+ * Notice shown above the story in static builds when the current args have no
+ * pre-rendered variant, so stale HTML isn't mistaken for the result.
+ */
+function createMissingVariantNotice(names: string[]): HTMLElement {
+  const notice = document.createElement('div');
+
+  notice.setAttribute(
+    'style',
+    'margin-bottom: 12px; padding: 8px 12px; border: 2px dashed #8b8b8b; border-radius: 8px; ' +
+      'color: #6b6b6b; font: 13px system-ui, sans-serif; background: #f8f8f8'
+  );
+  notice.textContent =
+    'No pre-rendered variant for these args; showing the initial args. ' +
+    (names.length > 0
+      ? `Controls work in static builds for: ${names.join(', ')}.`
+      : 'List arg values in parameters.astro.prerenderArgs to pre-render them.');
+
+  return notice;
+}
 
 /**
  * Renders an Astro component using server-side rendering via Vite HMR communication.
  * 
- * In static builds (no dev server), returns an informational fallback message since
+ * In static builds (no dev server), the component is rendered by the render server
+ * if the build has one. Otherwise returns an informational fallback message since
  * Astro components require server-side rendering via the Container API.
+ *
+ * Identical requests in flight are sent once and share the response. Aborting
+ * `signal` rejects the returned promise; the request is cancelled on the server
+ * once no render is waiting for it anymore.
  * 
  * @param data - Component render request data
- * @param timeoutMs - Maximum time to wait for rendering (default: 5000ms)
+ * @param options.signal - Aborts the render, e.g. when it is superseded
+ * @param options.timeoutMs - Maximum time to wait for rendering (default: 5000ms)
  * @returns Promise that resolves with the rendered HTML
  */
 async function renderAstroComponent(
-  data: RenderComponentInput, 
-  timeoutMs = 5000
+  data: RenderComponentInput,
+  { signal, timeoutMs = 5000 }: { signal?: AbortSignal; timeoutMs?: number } = {}
 ): Promise<RenderResponseMessage['data']> {
   // In static builds, import.meta.hot is undefined — no dev server to handle SSR.
+  if (!import.meta.hot && RENDER_ENDPOINT) {
+    return renderWithRenderServer(data, RENDER_ENDPOINT, signal);
+  }
+
   if (!import.meta.hot) {
     return {
       id: 'static-build',
@@ -361,6 +1099,44 @@ async function renderAstroComponent(
     };
   }
 
+  signal?.throwIfAborted();
+
+  const key = JSON.stringify(data);
+  const request = inflightRequests.get(key) ?? sendRenderRequest(data, key, timeoutMs);
+
+  inflightRequests.set(key, request);
+  request.consumers += 1;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      request.consumers -= 1;
+
+      // Deferred, so a render superseded by one with identical data keeps the request
+      queueMicrotask(() => {
+        if (request.consumers === 0) {
+          cancelRenderRequest(request);
+        }
+      });
+
+      reject(signal?.reason);
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    request.promise
+      .finally(() => signal?.removeEventListener('abort', onAbort))
+      .then(resolve)
+      .catch(reject);
+  });
+}
+
+/**
+ * Sends a render request to the server and tracks its response.
+ */
+function sendRenderRequest(
+  data: RenderComponentInput,
+  key: string,
+  timeoutMs: number
+): InflightRenderRequest {
   const id = crypto.randomUUID();
 
   const promise = new Promise<RenderResponseMessage['data']>((resolve, reject) => {
@@ -372,10 +1148,37 @@ async function renderAstroComponent(
     messages.set(id, { resolve, reject, timeoutId });
   });
 
+  const removeInflight = () => {
+    if (inflightRequests.get(key)?.id === id) {
+      inflightRequests.delete(key);
+    }
+  };
+
+  // Failures reach the waiting renders through their own handlers
+  promise.finally(removeInflight).catch(() => {});
+
   // Send render request via Vite HMR
   import.meta.hot?.send('astro:render:request', { ...data, id });
 
-  return promise;
+  return { id, key, promise, consumers: 0 };
+}
+
+/**
+ * Stops waiting for a render request and tells the server to stop rendering it.
+ */
+function cancelRenderRequest(request: InflightRenderRequest): void {
+  const pendingRequest = messages.get(request.id);
+
+  if (pendingRequest) {
+    clearTimeout(pendingRequest.timeoutId);
+    messages.delete(request.id);
+  }
+
+  if (inflightRequests.get(request.key) === request) {
+    inflightRequests.delete(request.key);
+  }
+
+  import.meta.hot?.send('astro:render:cancel', { id: request.id } satisfies RenderCancelMessage['data']);
 }
 
 /**
@@ -418,21 +1221,61 @@ function setupViteHMRListeners(): void {
     if (hasAstroStyleUpdates) {
       applyAstroStyles();
     }
+
+    shadowRoots.forEach((adoptStyles, shadowRoot) => {
+      if (shadowRoot.host.isConnected) {
+        syncShadowStyles(shadowRoot, adoptStyles);
+      } else {
+        shadowRoots.delete(shadowRoot);
+      }
+    });
   });
 
+  // Re-render stories whose components changed, instead of reloading the iframe
+  import.meta.hot?.on('astro:render:invalidate', rerenderInvalidatedStories);
+
   // Listen for Astro component render responses
-  import.meta.hot?.on('astro:render:response', (data: RenderResponseMessage['data']) => {
-    const pendingRequest = messages.get(data.id);
-    
-    if (pendingRequest) {
-      const { resolve, timeoutId } = pendingRequest;
-      
+  import.meta.hot?.on(
+    'astro:render:response',
+    async (data: RenderResponseMessage['data'] | RenderPayloadMessage['data']) => {
+      const pendingRequest = messages.get(data.id);
+
+      if (!pendingRequest) {
+        return;
+      }
+
+      const { resolve, reject, timeoutId } = pendingRequest;
+
       // Clean up and resolve
       clearTimeout(timeoutId);
       messages.delete(data.id);
-      resolve(data);
+
+      if (!('payloadUrl' in data)) {
+        resolve(data);
+
+        return;
+      }
+
+      try {
+        resolve(await fetchRenderPayload(data.payloadUrl));
+      } catch (error) {
+        reject(error);
+      }
     }
-  });
+  );
+}
+
+/**
+ * Fetches a render response that was too large to be sent through the websocket.
+ */
+async function fetchRenderPayload(payloadUrl: string): Promise<RenderResponseMessage['data']> {
+  const response = await fetch(payloadUrl);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Astro render response from ${payloadUrl} (${response.status})`);
+  }
+
+  return response.json();
 }
 
 /**
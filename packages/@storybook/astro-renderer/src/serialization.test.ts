@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createArgsKey,
+  deserializeArgs,
+  serializeArgs,
+  SERIALIZED_TYPE_KEY,
+  type ArgSerializer
+} from './serialization';
+
+class Money {
+  constructor(
+    readonly amount: number,
+    readonly currency: string
+  ) {}
+}
+
+const moneySerializer: ArgSerializer<Money> = {
+  type: 'Money',
+  test: (value) => value instanceof Money,
+  serialize: (value) => [value.amount, value.currency],
+  deserialize: (value) => new Money(...(value as [number, string]))
+};
+
+const roundTrip = (value: unknown, serializers: ArgSerializer<Money>[] = []) =>
+  deserializeArgs(JSON.parse(JSON.stringify(serializeArgs(value, serializers))), serializers);
+
+describe('serializeArgs', () => {
+  it('restores values JSON cannot represent', () => {
+    const args = {
+      missing: undefined,
+      infinity: Infinity,
+      notANumber: NaN,
+      negativeZero: -0,
+      big: 10n ** 20n,
+      date: new Date('2024-01-02T03:04:05.000Z'),
+      invalidDate: new Date(NaN),
+      url: new URL('https://example.com/path?query'),
+      pattern: /^a+$/gi,
+      map: new Map<unknown, unknown>([[{ id: 1 }, new Set([1n])]]),
+      nested: [{ when: new Date(0) }]
+    };
+    const restored = roundTrip(args);
+
+    expect(restored).toEqual(args);
+    expect(Object.hasOwn(restored, 'missing')).toBe(true);
+    expect(Object.is(restored.negativeZero, -0)).toBe(true);
+    expect(restored.pattern.flags).toBe('gi');
+    expect(restored.map).toBeInstanceOf(Map);
+    expect([...restored.map.values()][0]).toBeInstanceOf(Set);
+  });
+
+  it('drops functions', () => {
+    expect(serializeArgs({ onClick: () => {}, items: [() => {}, 1] })).toEqual({ items: [null, 1] });
+  });
+
+  it('uses custom serializers before the built-in ones', () => {
+    const args = { price: new Money(5, 'EUR'), prices: new Map([['a', new Money(1, 'USD')]]) };
+
+    expect(serializeArgs(args, [moneySerializer])).toMatchObject({
+      price: { [SERIALIZED_TYPE_KEY]: 'Money', value: [5, 'EUR'] }
+    });
+    expect(roundTrip(args, [moneySerializer])).toEqual(args);
+  });
+
+  it('escapes objects that use the type tag key', () => {
+    const args = { tagged: { [SERIALIZED_TYPE_KEY]: 'Date', value: 'not a date' } };
+
+    expect(roundTrip(args)).toEqual(args);
+  });
+
+  it('rejects circular references', () => {
+    const object: Record<string, unknown> = {};
+    const map = new Map<string, unknown>();
+    const set = new Set<unknown>();
+    const wrapper = new Money(1, 'EUR');
+    const wrapperSerializer: ArgSerializer<Money> = {
+      ...moneySerializer,
+      serialize: (value, serialize) => [serialize(value.currency), value.amount]
+    };
+
+    object.self = object;
+    map.set('self', map);
+    set.add([set]);
+    Object.assign(wrapper, { currency: { wrapper } });
+
+    expect(() => serializeArgs({ object })).toThrow(TypeError);
+    expect(() => serializeArgs({ map })).toThrow(TypeError);
+    expect(() => serializeArgs({ set })).toThrow(TypeError);
+    expect(() => serializeArgs({ wrapper }, [wrapperSerializer])).toThrow(TypeError);
+  });
+
+  it('allows the same object more than once', () => {
+    const shared = { id: 1 };
+
+    expect(roundTrip({ a: shared, b: [shared, shared] })).toEqual({ a: shared, b: [shared, shared] });
+  });
+});
+
+describe('deserializeArgs', () => {
+  it('rejects unknown type tags', () => {
+    expect(() => deserializeArgs({ [SERIALIZED_TYPE_KEY]: 'Money', value: [1, 'EUR'] })).toThrow(
+      'No arg serializer registered for type "Money"'
+    );
+  });
+});
+
+describe('createArgsKey', () => {
+  it('is independent of key order', () => {
+    expect(createArgsKey({ a: 1, b: { c: 2, d: 3 } })).toBe(createArgsKey({ b: { d: 3, c: 2 }, a: 1 }));
+  });
+
+  it('tells apart values JSON would not', () => {
+    expect(createArgsKey({ value: undefined })).not.toBe(createArgsKey({ value: null }));
+    expect(createArgsKey({ value: new Date(0) })).not.toBe(createArgsKey({ value: new Date(0).toISOString() }));
+    expect(createArgsKey({ value: new Set([1]) })).not.toBe(createArgsKey({ value: [1] }));
+  });
+});
@@ -0,0 +1,370 @@
+import type { $FIXME, SlotClientDirective, SlotValue } from './types';
+
+/**
+ * Serialization of story args between the canvas and the Astro render server.
+ *
+ * Args are sent as JSON, which drops or alters `undefined`, `Date`, `URL`, `Map`,
+ * `Set`, `BigInt`, non-finite numbers, class instances and imported images. Values
+ * JSON can't represent are written as tagged objects (`{ __astroType, value }`) and
+ * restored before the component receives them as `Astro.props`.
+ *
+ * Other types can be supported with an `ArgSerializer`, registered through the
+ * framework's `serializers` option so both the canvas and the server know it.
+ */
+
+/** Key holding the type tag of a serialized value. */
+export const SERIALIZED_TYPE_KEY = '__astroType';
+
+/**
+ * Property that marks an imported image. Its value is the image's absolute file
+ * path, which the render server re-imports to get the real `ImageMetadata`.
+ */
+export const ASTRO_IMAGE_MARKER = '__astroImage';
+
+/**
+ * Property holding `{ moduleId, exportName }` on exports of framework component
+ * modules (React, Vue, Svelte, ...), so they can be rendered as slot content.
+ */
+export const COMPONENT_MODULE_MARKER = '__astroModule';
+
+export type SerializedValue =
+  | string
+  | number
+  | boolean
+  | null
+  | SerializedValue[]
+  | { [key: string]: SerializedValue };
+
+/**
+ * Serializes values of one type. `test` decides whether a value is handled by
+ * this serializer; `serialize` and `deserialize` convert it to and from JSON.
+ *
+ * Nested values can be passed back through the `serialize`/`deserialize`
+ * callbacks, so e.g. a container type keeps its items' types.
+ */
+export interface ArgSerializer<T = unknown> {
+  /** Tag written to the payload. Must be unique and must not clash with the built-in tags. */
+  type: string;
+  test: (value: unknown) => boolean;
+  serialize: (value: T, serialize: (value: unknown) => SerializedValue) => SerializedValue;
+  deserialize: (value: SerializedValue, deserialize: (value: SerializedValue) => unknown) => T;
+}
+
+/**
+ * Component rendered into a slot by the render server, see `serializeSlots`.
+ */
+export type SerializedSlotComponent = {
+  /** Module id the server imports the component from */
+  component: string;
+  exportName: string;
+  args: SerializedValue;
+  slots: SerializedSlots;
+  client?: { directive: string; value?: string };
+};
+
+export type SerializedSlots = Record<string, Array<string | SerializedSlotComponent>>;
+
+type ComponentModule = { moduleId: string; exportName: string };
+
+type ImageValue = Record<string, unknown> & { fsPath?: string };
+
+const BUILT_IN_SERIALIZERS: ArgSerializer<$FIXME>[] = [
+  {
+    type: 'undefined',
+    test: (value) => value === undefined,
+    serialize: () => null,
+    deserialize: () => undefined
+  },
+  {
+    type: 'Number',
+    test: (value) => typeof value === 'number' && (!Number.isFinite(value) || Object.is(value, -0)),
+    serialize: (value: number) => (Object.is(value, -0) ? '-0' : String(value)),
+    deserialize: (value) => Number(value)
+  },
+  {
+    type: 'BigInt',
+    test: (value) => typeof value === 'bigint',
+    serialize: (value: bigint) => value.toString(),
+    deserialize: (value) => BigInt(value as string)
+  },
+  {
+    type: 'Date',
+    test: (value) => value instanceof Date,
+    serialize: (value: Date) => (Number.isNaN(value.getTime()) ? null : value.toISOString()),
+    deserialize: (value) => new Date(value === null ? NaN : (value as string))
+  },
+  {
+    type: 'URL',
+    test: (value) => value instanceof URL,
+    serialize: (value: URL) => value.href,
+    deserialize: (value) => new URL(value as string)
+  },
+  {
+    type: 'RegExp',
+    test: (value) => value instanceof RegExp,
+    serialize: (value: RegExp) => [value.source, value.flags],
+    deserialize: (value) => new RegExp(...(value as [string, string]))
+  },
+  {
+    type: 'Map',
+    test: (value) => value instanceof Map,
+    serialize: (value: Map<unknown, unknown>, serialize) =>
+      Array.from(value, ([key, item]) => [serialize(key), serialize(item)]),
+    deserialize: (value, deserialize) =>
+      new Map(
+        (value as SerializedValue[][]).map(([key, item]) => [deserialize(key), deserialize(item)])
+      )
+  },
+  {
+    type: 'Set',
+    test: (value) => value instanceof Set,
+    serialize: (value: Set<unknown>, serialize) => Array.from(value, (item) => serialize(item)),
+    deserialize: (value, deserialize) =>
+      new Set((value as SerializedValue[]).map((item) => deserialize(item)))
+  },
+  {
+    // Images marked by the client-side image plugin, or `ImageMetadata` imported on
+    // the server (static builds), which exposes its file path as `fsPath`
+    type: 'Image',
+    test: (value) =>
+      isObject(value) &&
+      (typeof value[ASTRO_IMAGE_MARKER] === 'string' ||
+        (typeof (value as ImageValue).fsPath === 'string' && typeof value.src === 'string')),
+    serialize: (value: ImageValue) => {
+      const { [ASTRO_IMAGE_MARKER]: marker, ...metadata } = value;
+
+      return {
+        path: (marker ?? value.fsPath) as string,
+        metadata: JSON.parse(JSON.stringify(metadata))
+      };
+    },
+    deserialize: (value) => {
+      const { path, metadata } = value as { path: string; metadata: Record<string, SerializedValue> };
+
+      return { ...metadata, [ASTRO_IMAGE_MARKER]: path };
+    }
+  }
+];
+
+/**
+ * Serializes story args (or any value) into JSON-safe data. Functions are
+ * dropped, as they can't be sent to the server. Instances of classes without a
+ * registered serializer are sent as plain objects of their own properties.
+ *
+ * @throws {TypeError} If the value contains a circular reference.
+ */
+export function serializeArgs(value: unknown, serializers: ArgSerializer<$FIXME>[] = []): SerializedValue {
+  const allSerializers = [...serializers, ...BUILT_IN_SERIALIZERS];
+  const ancestors = new Set<unknown>();
+
+  function serialize(input: unknown): SerializedValue {
+    const serializer = allSerializers.find((candidate) => candidate.test(input));
+
+    if (input === null || typeof input !== 'object') {
+      return serializer
+        ? { [SERIALIZED_TYPE_KEY]: serializer.type, value: serializer.serialize(input, serialize) }
+        : (input as SerializedValue);
+    }
+
+    // Also guards serializers, which recurse into their contents (e.g. Map and Set)
+    if (ancestors.has(input)) {
+      throw new TypeError('Story args contain a circular reference and cannot be sent to the Astro render server');
+    }
+
+    ancestors.add(input);
+
+    try {
+      if (serializer) {
+        return { [SERIALIZED_TYPE_KEY]: serializer.type, value: serializer.serialize(input, serialize) };
+      }
+
+      if (Array.isArray(input)) {
+        return input.map((item) => (typeof item === 'function' ? null : serialize(item)));
+      }
+
+      warnAboutClassInstance(input);
+
+      const result: Record<string, SerializedValue> = {};
+
+      for (const [key, item] of Object.entries(input)) {
+        if (typeof item !== 'function') {
+          result[key] = serialize(item);
+        }
+      }
+
+      // Escape plain objects that happen to use the tag key
+      if (Object.hasOwn(input, SERIALIZED_TYPE_KEY)) {
+        return { [SERIALIZED_TYPE_KEY]: 'Object', value: result };
+      }
+
+      return result;
+    } finally {
+      ancestors.delete(input);
+    }
+  }
+
+  return serialize(value);
+}
+
+/**
+ * Restores args serialized by `serializeArgs`. Must be given the same custom
+ * serializers that were used to serialize them.
+ *
+ * @throws {Error} If the data uses a type tag no serializer is registered for.
+ */
+export function deserializeArgs(value: SerializedValue, serializers: ArgSerializer<$FIXME>[] = []): $FIXME {
+  const allSerializers = [...serializers, ...BUILT_IN_SERIALIZERS];
+
+  function deserialize(input: SerializedValue): unknown {
+    if (Array.isArray(input)) {
+      return input.map(deserialize);
+    }
+
+    if (!isObject(input)) {
+      return input;
+    }
+
+    if (Object.hasOwn(input, SERIALIZED_TYPE_KEY)) {
+      const type = input[SERIALIZED_TYPE_KEY];
+
+      if (type === 'Object') {
+        return deserializeObject(input.value as Record<string, SerializedValue>);
+      }
+
+      const serializer = allSerializers.find((candidate) => candidate.type === type);
+
+      if (!serializer) {
+        throw new Error(`No arg serializer registered for type "${type}"`);
+      }
+
+      return serializer.deserialize(input.value, deserialize);
+    }
+
+    return deserializeObject(input);
+  }
+
+  function deserializeObject(input: Record<string, SerializedValue>) {
+    return Object.fromEntries(Object.entries(input).map(([key, item]) => [key, deserialize(item)]));
+  }
+
+  return deserialize(value);
+}
+
+/**
+ * Identifies args by their serialized values, independent of key order. Static
+ * builds use it to look up the HTML pre-rendered for the args of a story.
+ */
+export function createArgsKey(args: Record<string, unknown>, serializers: ArgSerializer<$FIXME>[] = []): string {
+  const sortKeys = (value: SerializedValue): SerializedValue => {
+    if (Array.isArray(value)) {
+      return value.map(sortKeys);
+    }
+
+    if (!isObject(value)) {
+      return value;
+    }
+
+    return Object.fromEntries(Object.keys(value).sort().map((key) => [key, sortKeys(value[key])]));
+  };
+
+  return JSON.stringify(sortKeys(serializeArgs(args, serializers)));
+}
+
+const warnedClassNames = new Set<string>();
+
+function warnAboutClassInstance(value: object) {
+  const prototype = Object.getPrototypeOf(value);
+
+  if (prototype === null || prototype === Object.prototype) {
+    return;
+  }
+
+  const className = prototype.constructor?.name || 'anonymous class';
+
+  if (!warnedClassNames.has(className)) {
+    warnedClassNames.add(className);
+    console.warn(
+      `[storybook-astro] Arg of type ${className} is sent to the server as a plain object. ` +
+        'Register an arg serializer for it to keep its type.'
+    );
+  }
+}
+
+function isObject(value: unknown): value is Record<string, SerializedValue> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Serializes story slots for the render server. Strings are sent as HTML;
+ * component references are sent as the module they're imported from, with
+ * serialized args, their own slots and optional `client:*` directive.
+ *
+ * @throws {Error} If a slot references a component that can't be located, e.g. a
+ * framework component from `node_modules`.
+ */
+export function serializeSlots(
+  slots: Record<string, SlotValue> | undefined,
+  serializers: ArgSerializer<$FIXME>[] = []
+): SerializedSlots {
+  const serializeSlot = (value: SlotValue): Array<string | SerializedSlotComponent> => {
+    if (Array.isArray(value)) {
+      return value.flatMap(serializeSlot);
+    }
+
+    if (typeof value === 'object' && value !== null && 'component' in value) {
+      const { component, args = {}, slots: nestedSlots, client } = value;
+
+      return [
+        {
+          ...resolveSlotComponent(component),
+          args: serializeArgs(args, serializers),
+          slots: serializeSlots(nestedSlots, serializers),
+          client: client && serializeClientDirective(client)
+        }
+      ];
+    }
+
+    return value === null || value === undefined ? [] : [String(value)];
+  };
+
+  return Object.fromEntries(
+    Object.entries(slots ?? {}).map(([name, value]) => [name, serializeSlot(value)])
+  );
+}
+
+/**
+ * Locates a slot component's module: Astro components carry their `moduleId`,
+ * framework components are tagged with `COMPONENT_MODULE_MARKER` when imported.
+ */
+function resolveSlotComponent(component: unknown): Pick<SerializedSlotComponent, 'component' | 'exportName'> {
+  if (typeof component === 'function' || isObject(component)) {
+    const { moduleId, isAstroComponentFactory } = component as Record<string, unknown>;
+    const marker = (component as Record<string, unknown>)[COMPONENT_MODULE_MARKER];
+
+    if (isAstroComponentFactory && typeof moduleId === 'string') {
+      return { component: moduleId, exportName: 'default' };
+    }
+
+    if (isObject(marker)) {
+      const { moduleId: markedModuleId, exportName } = marker as unknown as ComponentModule;
+
+      return { component: markedModuleId, exportName };
+    }
+  }
+
+  throw new Error(
+    'Slot components must be Astro components or framework components imported from the project'
+  );
+}
+
+function serializeClientDirective(client: SlotClientDirective): SerializedSlotComponent['client'] {
+  if (typeof client === 'string') {
+    return { directive: client };
+  }
+
+  if ('media' in client) {
+    return { directive: 'media', value: client.media };
+  }
+
+  return { directive: 'only', value: client.only };
+}
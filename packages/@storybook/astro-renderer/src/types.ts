@@ -1,10 +1,173 @@
+import type { SerializedSlots, SerializedValue } from './serialization';
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type $FIXME = any;
 
 export type RenderComponentInput = {
   component: string;
-  args: Record<string, unknown>;
-  slots: Record<string, string>;
+  /** Component props, serialized with `serializeArgs` */
+  args: SerializedValue;
+  /** Slot content, serialized with `serializeSlots` */
+  slots: SerializedSlots;
+  document?: boolean;
+  layout?: RenderLayoutInput;
+  request?: RenderRequestInput;
+  content?: ContentFixtures;
+};
+
+/**
+ * Mock content collection entries keyed by collection name.
+ */
+export type ContentFixtures = Record<
+  string,
+  Array<{
+    id: string;
+    data?: Record<string, unknown>;
+    /** Markdown body, rendered by `render(entry)` */
+    body?: string;
+  }>
+>;
+
+/**
+ * Request context the component is rendered with (`Astro.request`, `Astro.url`,
+ * `Astro.params` and `Astro.locals`).
+ */
+export type RenderRequestInput = {
+  url?: string;
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  params?: Record<string, string | undefined>;
+  /** Serialized with `serializeArgs`, like component args */
+  locals?: SerializedValue;
+};
+
+export type RenderLayoutInput = {
+  component: string;
+  args: SerializedValue;
+};
+
+/**
+ * Reference to an Astro component as seen by the client. Imports of `.astro`
+ * files resolve to a stub carrying the module id of the real component.
+ */
+export type AstroComponentReference = {
+  isAstroComponentFactory: boolean;
+  moduleId?: string;
+};
+
+/**
+ * `client:*` directive a slot component is hydrated with. `only` takes the
+ * renderer name (e.g. `'react'`), `media` the media query.
+ */
+export type SlotClientDirective = 'load' | 'idle' | 'visible' | { media: string } | { only: string };
+
+/**
+ * Component rendered server-side into a slot: an Astro component, or a framework
+ * component (React, Vue, Svelte, ...) rendered through its registered renderer.
+ */
+export type SlotComponent = {
+  component: unknown;
+  args?: Record<string, unknown>;
+  slots?: Record<string, SlotValue>;
+  /** Hydrates the framework component as an island */
+  client?: SlotClientDirective;
+};
+
+/**
+ * Content of a story slot (`args.slots`): HTML, a component, or a list of both.
+ */
+export type SlotValue = string | SlotComponent | SlotValue[];
+
+/**
+ * Story parameters read by the Astro renderer (`parameters.astro`).
+ */
+export type AstroParameters = {
+  /**
+   * Render the component as a full HTML document instead of a fragment.
+   * Content the component puts into `<head>` is moved into the preview
+   * iframe's head.
+   */
+  document?: boolean;
+  /**
+   * Layout component the story is wrapped in. The story's rendered HTML
+   * fills the layout's default slot. Implies `document: true`.
+   */
+  layout?:
+    | AstroComponentReference
+    | {
+        component: AstroComponentReference;
+        args?: Record<string, unknown>;
+      };
+  /**
+   * URL the component is rendered at, absolute or relative to the default
+   * origin. Exposed as `Astro.url` and `Astro.request.url`. The `astroUrl`
+   * toolbar global takes precedence when set.
+   */
+  url?: string;
+  /** Headers of `Astro.request`. */
+  headers?: Record<string, string>;
+  /**
+   * Cookies sent with the request, readable through `Astro.cookies` and the
+   * `Cookie` header. Cookies the component sets are shown in the Astro panel.
+   */
+  cookies?: Record<string, string>;
+  /** Route parameters exposed as `Astro.params`. */
+  params?: Record<string, string | undefined>;
+  /** Values exposed as `Astro.locals`. */
+  locals?: Record<string, unknown>;
+  /**
+   * Fixture entries returned by `getCollection`, `getEntry` and `getEntries` from
+   * `astro:content`. Collections not listed here use the project's real content.
+   */
+  content?: ContentFixtures;
+  /**
+   * How re-renders of the story (e.g. arg changes) update the canvas.
+   * `'replace'` (default) swaps in the new HTML; `'morph'` patches the live DOM
+   * to match it, so unchanged nodes keep focus, scroll position and other state,
+   * and hydrated islands stay mounted and receive their new props.
+   */
+  updateStrategy?: 'replace' | 'morph';
+  /**
+   * `'shadow'` renders the story inside a shadow root, isolated from the
+   * page's global CSS (e.g. `.storybook/preview.css`) and Storybook's own
+   * styles. Component styles are applied inside it.
+   */
+  isolation?: 'none' | 'shadow';
+  /**
+   * Global stylesheets applied inside the shadow root of an isolated story,
+   * matched against the URL of `<link>` stylesheets or the module id of the
+   * styles Vite injects in dev (e.g. `'/src/styles/global.css'`).
+   */
+  adoptStyles?: Array<string | RegExp>;
+  /**
+   * Values of args to pre-render in static builds, e.g.
+   * `{ variant: ['primary', 'secondary'], disabled: [true, false] }`. Every
+   * combination is rendered at build time, so changing these args through
+   * Controls shows the matching HTML in a deployed Storybook.
+   */
+  prerenderArgs?: Record<string, unknown[]>;
+};
+
+/**
+ * Error thrown while rendering a component on the server.
+ */
+export type RenderError = {
+  name?: string;
+  message: string;
+  /** Stack trace, mapped to the component sources */
+  stack?: string;
+  /** Suggestion from Astro on how to fix the error */
+  hint?: string;
+  /** Location in the component sources the error was thrown from */
+  loc?: {
+    file: string;
+    line: number;
+    column: number;
+  };
+  /** Source lines around `loc` */
+  frame?: string;
+  /** Module id of the rendered story component */
+  component: string;
 };
 
 export type RenderResponseMessage = {
@@ -12,6 +175,22 @@ export type RenderResponseMessage = {
   data: {
     id: string;
     html: string;
+    /** `Set-Cookie` header values for cookies set through `Astro.cookies`. */
+    cookies?: string[];
+    /** Set when rendering failed; `html` is empty then. */
+    error?: RenderError;
+  };
+};
+
+/**
+ * Sent instead of `RenderResponseMessage` when the response is too large for the
+ * websocket. The full response is fetched once from `payloadUrl`.
+ */
+export type RenderPayloadMessage = {
+  type: 'astro:render:response';
+  data: {
+    id: string;
+    payloadUrl: string;
   };
 };
 
@@ -22,7 +201,35 @@ export type RenderRequestMessage = {
   };
 };
 
-export type Message = RenderRequestMessage | RenderResponseMessage;
+/**
+ * Sent when the canvas no longer needs a requested render, e.g. because the
+ * args changed again. The server stops rendering and sends no response.
+ */
+export type RenderCancelMessage = {
+  type: 'astro:render:cancel';
+  data: {
+    id: string;
+  };
+};
+
+/**
+ * Sent to all clients when a file that rendered components depend on has
+ * changed. `files` lists the changed file and every module importing it on the
+ * internal server, so canvases can tell whether their story is affected.
+ */
+export type RenderInvalidateMessage = {
+  type: 'astro:render:invalidate';
+  data: {
+    files: string[];
+  };
+};
+
+export type Message =
+  | RenderRequestMessage
+  | RenderResponseMessage
+  | RenderPayloadMessage
+  | RenderCancelMessage
+  | RenderInvalidateMessage;
 
 export type RenderPromise = {
   resolve: (value: RenderResponseMessage['data']) => void;
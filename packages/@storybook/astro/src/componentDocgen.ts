@@ -0,0 +1,260 @@
+import { basename, extname } from 'node:path';
+import type * as TS from 'typescript';
+
+// Frontmatter fence of an .astro file
+const FRONTMATTER_REGEX = /^\s*---\r?\n([\s\S]*?)\r?\n---/;
+
+// Nesting depth up to which the properties of object props are described
+const MAX_OBJECT_DEPTH = 2;
+
+/** Type of a prop in the format of react-docgen's `tsType`, which Storybook's docs tools convert */
+export type DocgenType = {
+  name: string;
+  raw?: string;
+  value?: string;
+  elements?: DocgenType[];
+  type?: 'function' | 'object';
+  signature?: { properties: Array<{ key: string; value: DocgenType }> };
+};
+
+export type DocgenProp = {
+  required: boolean;
+  description: string;
+  tsType: DocgenType;
+  defaultValue: { value: string; computed: boolean } | null;
+};
+
+export type DocgenInfo = {
+  displayName: string;
+  description: string;
+  props: Record<string, DocgenProp>;
+};
+
+export type ComponentDocgen = {
+  /**
+   * Describes the props an Astro component declares with `interface Props` or
+   * `type Props` in its frontmatter. Returns null for components without them.
+   */
+  getDocgenInfo(filePath: string, source: string): DocgenInfo | null;
+};
+
+/**
+ * Creates the docgen step of Astro components, from which Storybook infers the
+ * argTypes of their stories (controls and the Docs args table).
+ *
+ * The frontmatter is type-checked as a TypeScript module next to the component,
+ * so props extending or referencing imported types are resolved. For each prop
+ * it collects the JSDoc description, whether it's optional, its type (unions of
+ * literals become select options) and the default value given where the props
+ * are destructured from `Astro.props`.
+ *
+ * Programs are reused across components, so files they share are parsed once.
+ * Resolves to null if TypeScript isn't installed.
+ */
+export async function createComponentDocgen(): Promise<ComponentDocgen | null> {
+  let ts: typeof TS;
+
+  try {
+    ts = (await import('typescript')).default;
+  } catch {
+    return null;
+  }
+
+  const options: TS.CompilerOptions = {
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    allowImportingTsExtensions: true,
+    allowArbitraryExtensions: true,
+    resolveJsonModule: true,
+    skipLibCheck: true,
+    noEmit: true,
+    types: []
+  };
+  const host = ts.createCompilerHost(options);
+  const { readFile } = host;
+  // Frontmatter modules by file name, checked in place of the components
+  const frontmatters = new Map<string, string>();
+  // Parsed files by name, reused while their content is unchanged
+  const sourceFiles = new Map<string, { text: string; sourceFile: TS.SourceFile }>();
+  let program: TS.Program | undefined;
+
+  host.readFile = (name) => frontmatters.get(name) ?? readFile.call(host, name);
+  host.fileExists = (name) => frontmatters.has(name) || ts.sys.fileExists(name);
+  host.getSourceFile = (name, languageVersion) => {
+    const text = host.readFile(name);
+
+    if (text === undefined) {
+      return undefined;
+    }
+
+    if (sourceFiles.get(name)?.text !== text) {
+      sourceFiles.set(name, { text, sourceFile: ts.createSourceFile(name, text, languageVersion, true) });
+    }
+
+    return sourceFiles.get(name)!.sourceFile;
+  };
+
+  return {
+    getDocgenInfo(filePath, source) {
+      const frontmatter = FRONTMATTER_REGEX.exec(source)?.[1];
+
+      if (!frontmatter || !/\b(interface|type)\s+Props\b/.test(frontmatter)) {
+        return null;
+      }
+
+      // Checked as a module next to the component, so relative imports resolve
+      const fileName = `${filePath}.frontmatter.ts`;
+
+      frontmatters.set(fileName, frontmatter);
+      program = ts.createProgram({ rootNames: [fileName], options, host, oldProgram: program });
+
+      const sourceFile = program.getSourceFile(fileName);
+
+      if (!sourceFile) {
+        return null;
+      }
+
+      const checker = program.getTypeChecker();
+      const declaration = sourceFile.statements.find(
+        (statement): statement is TS.InterfaceDeclaration | TS.TypeAliasDeclaration =>
+          (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) &&
+          statement.name.text === 'Props'
+      );
+
+      if (!declaration) {
+        return null;
+      }
+
+      const defaults = collectPropDefaults(ts, sourceFile);
+      const props: Record<string, DocgenProp> = {};
+
+      for (const property of checker.getPropertiesOfType(checker.getTypeAtLocation(declaration.name))) {
+        props[property.name] = {
+          required: (property.flags & ts.SymbolFlags.Optional) === 0,
+          description: ts.displayPartsToString(property.getDocumentationComment(checker)),
+          tsType: createDocgenType(ts, checker, checker.getTypeOfSymbolAtLocation(property, declaration), 0),
+          defaultValue: defaults.has(property.name)
+            ? { value: defaults.get(property.name)!, computed: false }
+            : null
+        };
+      }
+
+      return {
+        displayName: basename(filePath, extname(filePath)),
+        description: '',
+        props
+      };
+    }
+  };
+}
+
+/**
+ * Collects the default values of props destructured from `Astro.props`,
+ * e.g. `const { size = 'medium', title: heading = '' } = Astro.props;`.
+ */
+function collectPropDefaults(ts: typeof TS, sourceFile: TS.SourceFile): Map<string, string> {
+  const defaults = new Map<string, string>();
+
+  const isAstroProps = (expression: TS.Expression): boolean => {
+    if (ts.isAsExpression(expression) || ts.isSatisfiesExpression(expression) || ts.isParenthesizedExpression(expression)) {
+      return isAstroProps(expression.expression);
+    }
+
+    return ts.isPropertyAccessExpression(expression) && expression.getText(sourceFile) === 'Astro.props';
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) {
+      continue;
+    }
+
+    for (const { name, initializer } of statement.declarationList.declarations) {
+      if (!initializer || !ts.isObjectBindingPattern(name) || !isAstroProps(initializer)) {
+        continue;
+      }
+
+      for (const element of name.elements) {
+        const propName = element.propertyName ?? element.name;
+
+        if (element.initializer && !element.dotDotDotToken && (ts.isIdentifier(propName) || ts.isStringLiteral(propName))) {
+          defaults.set(propName.text, element.initializer.getText(sourceFile));
+        }
+      }
+    }
+  }
+
+  return defaults;
+}
+
+/**
+ * Describes a TypeScript type like react-docgen does: primitives by name, unions
+ * and arrays by their elements, and functions and objects as signatures.
+ */
+function createDocgenType(ts: typeof TS, checker: TS.TypeChecker, type: TS.Type, depth: number): DocgenType {
+  const raw = checker.typeToString(type);
+
+  if (type.flags & (ts.TypeFlags.String | ts.TypeFlags.Number | ts.TypeFlags.Boolean | ts.TypeFlags.ESSymbol)) {
+    return { name: raw };
+  }
+
+  if (type.flags & ts.TypeFlags.Undefined) {
+    return { name: 'undefined' };
+  }
+
+  if (type.isStringLiteral()) {
+    return { name: 'literal', value: JSON.stringify(type.value) };
+  }
+
+  if (type.isNumberLiteral() || type.flags & ts.TypeFlags.BooleanLiteral) {
+    return { name: 'literal', value: raw };
+  }
+
+  if (type.isUnion()) {
+    // `boolean` is a union of `true | false`; keep it whole within larger unions
+    const hasBoolean = type.types.filter((element) => element.flags & ts.TypeFlags.BooleanLiteral).length === 2;
+    const elements = type.types
+      .filter((element) => !(hasBoolean && element.flags & ts.TypeFlags.BooleanLiteral))
+      .map((element) => createDocgenType(ts, checker, element, depth));
+
+    return {
+      name: 'union',
+      raw,
+      elements: hasBoolean ? [...elements, { name: 'boolean' }] : elements
+    };
+  }
+
+  if (checker.isArrayType(type)) {
+    const [elementType] = checker.getTypeArguments(type as TS.TypeReference);
+
+    return { name: 'Array', raw, elements: elementType ? [createDocgenType(ts, checker, elementType, depth)] : [] };
+  }
+
+  if (type.getCallSignatures().length > 0) {
+    return { name: 'signature', type: 'function', raw };
+  }
+
+  // Only data shapes; class instances like `Date` or `URL` are described by name
+  const properties = type.flags & ts.TypeFlags.Object ? checker.getPropertiesOfType(type) : [];
+  const propertyTypes = properties.map((property) => checker.getTypeOfSymbol(property));
+
+  if (
+    depth < MAX_OBJECT_DEPTH &&
+    properties.length > 0 &&
+    propertyTypes.every((propertyType) => propertyType.getCallSignatures().length === 0)
+  ) {
+    return {
+      name: 'signature',
+      type: 'object',
+      raw,
+      signature: {
+        properties: properties.map((property, i) => ({
+          key: property.name,
+          value: createDocgenType(ts, checker, propertyTypes[i], depth + 1)
+        }))
+      }
+    };
+  }
+
+  return { name: raw };
+}
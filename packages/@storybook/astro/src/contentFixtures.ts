@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * A mock content collection entry supplied by a story (`parameters.astro.content`).
+ */
+export type ContentEntryFixture = {
+  id: string;
+  data?: Record<string, unknown>;
+  /** Markdown body. Rendered with Astro's Markdown processor when passed to `render()`. */
+  body?: string;
+};
+
+/**
+ * Mock entries keyed by collection name. Collections that are not listed here
+ * are read from the project's real content layer.
+ */
+export type ContentFixtures = Record<string, ContentEntryFixture[]>;
+
+// Each render runs in its own async context, so concurrent renders
+// of different stories never see each other's fixtures.
+const storage = new AsyncLocalStorage<ContentFixtures>();
+
+export function runWithContentFixtures<T>(fixtures: ContentFixtures | undefined, fn: () => T): T {
+  return storage.run(fixtures ?? {}, fn);
+}
+
+export function getContentFixtures(): ContentFixtures {
+  return storage.getStore() ?? {};
+}
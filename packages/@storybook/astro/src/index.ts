@@ -16,6 +16,14 @@ export {
 
 // Export framework types
 export type { FrameworkOptions, StorybookConfig } from './types.ts';
+export type { RenderEndpointRequest, RenderEndpointResponse } from './renderEndpoint.ts';
+export type {
+  AstroParameters,
+  SlotClientDirective,
+  SlotComponent,
+  SlotValue
+} from '@storybook/astro-renderer/types';
+export type { ArgSerializer, SerializedValue } from '@storybook/astro-renderer/serialization';
 
 // Re-export preset functionality for framework usage
 export { core, viteFinal } from './preset.ts';
\ No newline at end of file
@@ -1,13 +1,65 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { resolve, sep } from 'node:path';
 import { experimental_AstroContainer as AstroContainer } from 'astro/container';
+import { createComponent, render as renderTemplate, renderComponent } from 'astro/runtime/server/index.js';
 import type { Integration } from './integrations/index.ts';
 import { addRenderers } from 'virtual:astro-container-renderers';
+import serializers from 'virtual:astro-arg-serializers';
+import { loadModule } from 'virtual:astro-render-modules';
+import {
+  ASTRO_IMAGE_MARKER,
+  deserializeArgs,
+  type SerializedSlotComponent,
+  type SerializedSlots,
+  type SerializedValue
+} from '@storybook/astro-renderer/serialization';
+import { runWithContentFixtures, type ContentFixtures } from './contentFixtures.ts';
 
 export type HandlerProps = {
   component: string;
-  args?: Record<string, unknown>;
-  slots?: Record<string, unknown>;
+  /** Component props, serialized with `serializeArgs`. */
+  args?: SerializedValue;
+  /** Slot content, serialized with `serializeSlots`. Plain strings are accepted as HTML. */
+  slots?: Record<string, SerializedSlots[string] | string>;
+  /** Render as a full HTML document (doctype, <html>, <head>) instead of a fragment. */
+  document?: boolean;
+  /** Layout component whose default slot receives the rendered component. */
+  layout?: {
+    component: string;
+    args?: SerializedValue;
+  };
+  /** Request context exposed as `Astro.request`, `Astro.url`, `Astro.params` and `Astro.locals`. */
+  request?: {
+    url?: string;
+    headers?: Record<string, string>;
+    /** Cookies sent with the request, readable through `Astro.cookies`. */
+    cookies?: Record<string, string>;
+    params?: Record<string, string | undefined>;
+    /** Serialized with `serializeArgs`, like `args`. */
+    locals?: SerializedValue;
+  };
+  /** Fixture entries replacing content collections for this render (`getCollection`, `getEntry`). */
+  content?: ContentFixtures;
+};
+
+export type HandlerOptions = {
+  /** Stops the render between render passes; the handler then rejects with the abort reason. */
+  signal?: AbortSignal;
+};
+
+export type HandlerResult = {
+  html: string;
+  /** `Set-Cookie` header values for cookies the component set through `Astro.cookies`. */
+  cookies: string[];
 };
 
+// Same origin the Container API uses when no request is given
+const DEFAULT_REQUEST_ORIGIN = 'https://example.com';
+
+// Files marked images may point at, as marked by `vitePluginAstroImageMarker`
+const IMAGE_FILE_REGEX = /\.(jpe?g|png|tiff?|webp|gif|svg|avif)$/i;
+
 export async function handlerFactory(integrations: Integration[]) {
   const container = await AstroContainer.create({
     // Somewhat hacky way to force client-side Storybook's Vite to resolve modules properly
@@ -30,11 +82,25 @@ export async function handlerFactory(integrations: Integration[]) {
 
   addRenderers(container);
 
-  return async function handler(data: HandlerProps) {
-    const { default: Component } = await import(/* @vite-ignore */ data.component);
+  return function handler(data: HandlerProps, { signal }: HandlerOptions = {}): Promise<HandlerResult> {
+    return runWithContentFixtures(data.content, () => render(data, signal));
+  };
+
+  async function render(data: HandlerProps, signal?: AbortSignal): Promise<HandlerResult> {
+    signal?.throwIfAborted();
+
+    const { default: Component } = await loadModule(data.component);
 
-    // Process args to convert ImageMetadata objects to usable URLs
-    const processedArgs = await processImageMetadata(data.args || {});
+    // Restore typed args, then swap marked images for ImageMetadata so astro:assets can optimize them
+    const props = await resolveImageArgs(deserializeArgs(data.args ?? {}, serializers));
+
+    // Cookie jars of every render pass, read after rendering to report Set-Cookie values
+    const cookieJars: any[] = [];
+    const collectCookies = (result: any) => {
+      if (result.cookies) {
+        cookieJars.push(result.cookies);
+      }
+    };
 
     // Wrap the component factory to fix the createAstro calling convention mismatch.
     // Astro compiler v2 produces: result.createAstro($$Astro, $$props, $$slots) [3 args]
@@ -42,14 +108,125 @@ export async function handlerFactory(integrations: Integration[]) {
     // When v2-compiled components run against the v6 runtime, $$Astro gets captured as
     // "props" and actual props end up as "slots". This wrapper detects the 3-arg call
     // and strips the leading $$Astro argument.
-    const patchedComponent = patchCreateAstroCompat(Component);
+    const patchedComponent = patchCreateAstroCompat(Component, collectCookies);
+    const requestOptions = createRequestOptions(data.request);
 
-    const result = await container.renderToString(patchedComponent, {
-      props: processedArgs,
-      slots: data.slots ?? {}
+    let html = await container.renderToString(patchedComponent, {
+      ...requestOptions,
+      props,
+      slots: await renderSlots(data.slots ?? {}),
+      partial: !data.document || Boolean(data.layout)
     });
 
-    return result;
+    if (data.layout) {
+      signal?.throwIfAborted();
+
+      // Render the layout as the page, with the story's HTML as its default slot
+      const { default: Layout } = await loadModule(data.layout.component);
+
+      html = await container.renderToString(patchCreateAstroCompat(Layout, collectCookies), {
+        ...createRequestOptions(data.request),
+        props: await resolveImageArgs(deserializeArgs(data.layout.args ?? {}, serializers)),
+        slots: { default: html },
+        partial: false
+      });
+    }
+
+    return {
+      html,
+      cookies: cookieJars.flatMap((cookies) => Array.from(cookies.headers() as Iterable<string>))
+    };
+
+    /**
+     * Renders slot components to HTML, as the Container only accepts strings as slots.
+     */
+    async function renderSlots(slots: NonNullable<HandlerProps['slots']>): Promise<Record<string, string>> {
+      const entries = await Promise.all(
+        Object.entries(slots).map(async ([name, value]) => {
+          const parts = await Promise.all(
+            (Array.isArray(value) ? value : [value]).map((part) =>
+              typeof part === 'string' ? part : renderSlotComponent(part)
+            )
+          );
+
+          return [name, parts.join('')] as const;
+        })
+      );
+
+      return Object.fromEntries(entries);
+    }
+
+    async function renderSlotComponent(slot: SerializedSlotComponent): Promise<string> {
+      signal?.throwIfAborted();
+
+      const module = await loadModule(slot.component);
+      const Component = module[slot.exportName];
+
+      if (!Component) {
+        throw new Error(`Slot component "${slot.exportName}" is not exported from ${slot.component}`);
+      }
+
+      const slotProps = await resolveImageArgs(deserializeArgs(slot.args, serializers));
+      const options = {
+        ...createRequestOptions(data.request),
+        props: slotProps,
+        slots: await renderSlots(slot.slots),
+        partial: true
+      };
+
+      if (Component.isAstroComponentFactory) {
+        return container.renderToString(patchCreateAstroCompat(Component, collectCookies), options);
+      }
+
+      return container.renderToString(createFrameworkComponentWrapper(Component, slot), options);
+    }
+  }
+}
+
+/**
+ * Wraps a framework component in an Astro component that renders it the way a
+ * compiled `.astro` template does, so the Container picks the matching renderer.
+ * With a `client:*` directive it is rendered as a hydrated island, using the
+ * module id and export name to load it on the client.
+ */
+function createFrameworkComponentWrapper(Component: any, slot: SerializedSlotComponent): any {
+  const displayName = Component.displayName ?? Component.name ?? slot.exportName;
+  const hydrationProps = slot.client
+    ? {
+        [`client:${slot.client.directive}`]: slot.client.value ?? true,
+        'client:component-hydration': slot.client.directive,
+        'client:component-path': slot.component,
+        'client:component-export': slot.exportName
+      }
+    : {};
+
+  return createComponent((result: any, props: any, slots: any) =>
+    renderTemplate`${renderComponent(result, displayName, Component, { ...props, ...hydrationProps }, slots)}`
+  );
+}
+
+/**
+ * Builds the Container render options that back `Astro.request`, `Astro.url`,
+ * `Astro.cookies`, `Astro.params` and `Astro.locals`. Relative URLs are resolved
+ * against the Container's default origin; cookies are appended to the request's
+ * `Cookie` header.
+ */
+function createRequestOptions(input: HandlerProps['request'] = {}) {
+  const url = new URL(input.url ?? '/', DEFAULT_REQUEST_ORIGIN);
+  const headers = new Headers(input.headers);
+
+  if (input.cookies) {
+    const cookieHeader = Object.entries(input.cookies)
+      .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+      .join('; ');
+
+    headers.set('cookie', [headers.get('cookie'), cookieHeader].filter(Boolean).join('; '));
+  }
+
+  return {
+    request: new Request(url, { headers }),
+    params: input.params,
+    locals: deserializeArgs(input.locals ?? {}, serializers)
   };
 }
 
@@ -62,10 +239,15 @@ export async function handlerFactory(integrations: Integration[]) {
  * This causes $$Astro to be captured as "props" and actual props to be lost.
  *
  * The wrapper intercepts the result object and patches its createAstro method to
- * handle both calling conventions.
+ * handle both calling conventions. The optional `onResult` callback receives the
+ * result object, e.g. to read the render's `Astro.cookies`.
  */
-function patchCreateAstroCompat(Component: any): any {
+function patchCreateAstroCompat(Component: any, onResult?: (result: any) => void): any {
   const wrapped = (result: any, props: any, slots: any) => {
+    if (result) {
+      onResult?.(result);
+    }
+
     if (result && result.createAstro) {
       const origCreateAstro = result.createAstro;
 
@@ -92,57 +274,105 @@ function patchCreateAstroCompat(Component: any): any {
 }
 
 /**
- * Recursively processes arguments to convert ImageMetadata objects to usable image URLs.
- * This allows Astro's Image component to work properly in Storybook by converting
- * optimized asset references to direct file paths.
+ * Recursively replaces marked images (see `ASTRO_IMAGE_MARKER`) with their
+ * `ImageMetadata`, imported through this server so `<Image>` and `<Picture>` can
+ * optimize them. Objects without marked images are returned as-is. Marked paths
+ * come from the client, so only image files of the project are imported.
  */
-async function processImageMetadata(args: Record<string, unknown>): Promise<Record<string, unknown>> {
-  const processed: Record<string, unknown> = {};
-  
-  for (const [key, value] of Object.entries(args)) {
-    if (isImageMetadata(value)) {
-      // Convert ImageMetadata to a usable URL
-      processed[key] = convertImageMetadataToUrl(value);
-    } else if (Array.isArray(value)) {
-      // Process arrays recursively
-      processed[key] = await Promise.all(
-        value.map(async (item) => 
-          typeof item === 'object' && item !== null 
-            ? await processImageMetadata(item as Record<string, unknown>)
-            : item
-        )
-      );
-    } else if (typeof value === 'object' && value !== null) {
-      // Process nested objects recursively
-      processed[key] = await processImageMetadata(value as Record<string, unknown>);
-    } else {
-      processed[key] = value;
+async function resolveImageArgs<T>(value: T): Promise<T> {
+  if (Array.isArray(value)) {
+    const items = await Promise.all(value.map((item) => resolveImageArgs(item)));
+
+    return (items.some((item, index) => item !== value[index]) ? items : value) as T;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const imagePath = (value as Record<string, unknown>)[ASTRO_IMAGE_MARKER];
+
+  if (typeof imagePath === 'string') {
+    if (!IMAGE_FILE_REGEX.test(imagePath)) {
+      throw new Error(`Image arg ${imagePath} is not an image file`);
     }
+
+    const { default: imageMetadata } = await loadModule(imagePath);
+
+    return imageMetadata;
   }
-  
-  return processed;
+
+  const entries = await Promise.all(
+    Object.entries(value).map(async ([key, item]) => [key, item, await resolveImageArgs(item)] as const)
+  );
+
+  if (entries.every(([, item, resolved]) => item === resolved)) {
+    return value;
+  }
+
+  return Object.fromEntries(entries.map(([key, , resolved]) => [key, resolved])) as T;
 }
 
+export type TransformImageOptions = {
+  /** Directories of built assets, as the render server passes them. Images are read from them. */
+  assetDirs?: string[];
+  /**
+   * Decides whether the file of a `/@fs` URL may be read, e.g. with the `server.fs`
+   * rules of a Vite server. Without it, `/@fs` URLs are not followed.
+   */
+  isFileAllowed?: (path: string) => boolean;
+};
+
 /**
- * Type guard to check if a value is an ImageMetadata object.
- * ImageMetadata objects typically have properties like src, width, height, format.
+ * Runs the configured image service for an `/_image` URL produced while rendering,
+ * the way Astro's dev image endpoint does. Static builds use this to emit optimized
+ * images instead of pointing at the dev-only endpoint.
+ *
+ * `/@fs` URLs can point anywhere on the host, so the dev and pre-render servers
+ * only follow them to files their `server.fs` rules allow. The render server
+ * reads images from its `assetDirs` only.
  */
-function isImageMetadata(value: unknown): value is Record<string, any> {
-  return (
-    typeof value === 'object' &&
-    value !== null &&
-    'src' in value &&
-    typeof (value as any).src === 'string' &&
-    ('width' in value || 'height' in value || 'format' in value)
-  );
+export async function transformImage(imageUrl: string, { assetDirs = [], isFileAllowed }: TransformImageOptions = {}) {
+  const { getConfiguredImageService, imageConfig } = await import('astro:assets');
+  const imageService = await getConfiguredImageService();
+
+  if (!('transform' in imageService)) {
+    throw new Error('Configured image service is not a local service');
+  }
+
+  const transform = await imageService.parseURL(new URL(imageUrl, DEFAULT_REQUEST_ORIGIN), imageConfig);
+  const src = typeof transform?.src === 'string' ? transform.src.split('?')[0] : '';
+  let fsPath: string | undefined;
+
+  if (src.startsWith('/@fs/')) {
+    const path = resolve(src.replace(/^\/@fs/, ''));
+
+    fsPath = isFileAllowed?.(path) ? path : undefined;
+  } else if (assetDirs.length > 0) {
+    fsPath = findBuiltAsset(src, assetDirs);
+  }
+
+  if (!transform || !fsPath) {
+    throw new Error(`Cannot optimize image outside the project: ${imageUrl}`);
+  }
+
+  const { data, format } = await imageService.transform(await readFile(fsPath), transform, imageConfig);
+
+  return { fsPath, data, format };
 }
 
 /**
- * Converts an ImageMetadata object to a usable URL for Storybook.
- * In a Storybook environment, we use the raw file path instead of optimized URLs.
+ * Resolves the URL path of a built asset to its file in one of `assetDirs`.
+ * Paths leading out of the directories are not resolved.
  */
-function convertImageMetadataToUrl(imageMetadata: Record<string, any>): string {
-  // For Storybook, use the raw src path which should be the file path
-  // This bypasses Astro's image optimization which doesn't work in Storybook
-  return imageMetadata.src || imageMetadata.fsPath || String(imageMetadata);
+function findBuiltAsset(src: string, assetDirs: string[]): string | undefined {
+  for (const dir of assetDirs) {
+    const path = resolve(dir, `.${src}`);
+
+    if (path.startsWith(resolve(dir) + sep) && existsSync(path)) {
+      return path;
+    }
+  }
 }
+
+export type TransformImage = typeof transformImage;
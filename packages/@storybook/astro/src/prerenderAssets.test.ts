@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createServer, type Rollup, type ViteDevServer } from 'vite';
+import type { TransformImage } from './middleware.ts';
+import { createPrerenderAssets } from './prerenderAssets.ts';
+
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg"/>';
+
+let root: string;
+let viteServer: ViteDevServer;
+
+const transformImage = vi.fn(async () => ({
+  fsPath: join(root, 'src/assets/photo.png'),
+  data: new Uint8Array([1, 2, 3]),
+  format: 'webp'
+})) as unknown as TransformImage;
+
+// Emitted files are named `assets/<name>`, or by the file name they're given
+const createContext = () => {
+  const files = new Map<string, { fileName: string; source: string | Uint8Array }>();
+  const ctx = {
+    emitFile: ({ name, fileName, source }: Rollup.EmittedAsset) => {
+      const refId = `ref${files.size}`;
+
+      files.set(refId, { fileName: fileName ?? `assets/${name}`, source: source! });
+
+      return refId;
+    },
+    getFileName: (refId: string) => files.get(refId)!.fileName
+  } as unknown as Rollup.PluginContext;
+
+  return { ctx, files };
+};
+
+const rewriteHtml = async (html: string) => {
+  const assets = createPrerenderAssets(viteServer, transformImage, 'assets', undefined);
+  const { ctx, files } = createContext();
+  const rewritten = await assets.rewriteHtml(html, ctx);
+
+  assets.emitDeferredFiles(ctx);
+
+  return { html: assets.resolvePlaceholders(rewritten, ctx), files: Array.from(files.values()) };
+};
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'storybook-astro-assets-'));
+  await mkdir(join(root, 'src/assets'), { recursive: true });
+  await mkdir(join(root, 'public'));
+  await writeFile(join(root, 'src/assets/logo.svg'), SVG);
+  await writeFile(join(root, 'src/assets/card.css'), '.card { background: url("./logo.svg"); }');
+  await writeFile(join(root, 'public/favicon.svg'), SVG);
+  await writeFile(join(root, '.env'), 'SECRET=1');
+  await writeFile(join(root, 'package.json'), '{}');
+
+  viteServer = await createServer({
+    root,
+    configFile: false,
+    logLevel: 'silent',
+    appType: 'custom',
+    server: { middlewareMode: true, ws: false },
+    // Stylesheets reference their images instead of inlining them
+    build: { assetsInlineLimit: 0 }
+  });
+});
+
+afterAll(async () => {
+  await viteServer.close();
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('createPrerenderAssets', () => {
+  it('emits the project and public files HTML references', async () => {
+    const { html, files } = await rewriteHtml(
+      '<img src="/src/assets/logo.svg" srcset="/favicon.svg 1x, /src/assets/logo.svg 2x">' +
+        `<div style="background: url(&quot;/@fs${root}/src/assets/logo.svg&quot;)"></div>`
+    );
+
+    expect(html).toBe(
+      '<img src="assets/logo.svg" srcset="assets/favicon.svg 1x, assets/logo.svg 2x">' +
+        '<div style="background: url(&quot;assets/logo.svg&quot;)"></div>'
+    );
+    expect(files.map(({ fileName }) => fileName)).toEqual(['assets/logo.svg', 'assets/favicon.svg']);
+  });
+
+  it('runs image URLs through the image service', async () => {
+    const { html, files } = await rewriteHtml('<img src="/_image?href=%2Fsrc%2Fassets%2Fphoto.png&amp;w=100">');
+
+    expect(html).toBe('<img src="assets/photo.webp">');
+    expect(transformImage).toHaveBeenCalledWith('/_image?href=%2Fsrc%2Fassets%2Fphoto.png&w=100', {
+      isFileAllowed: expect.any(Function)
+    });
+    expect(files[0].source).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('emits stylesheets with the files they reference', async () => {
+    const { html, files } = await rewriteHtml('<link rel="stylesheet" href="/src/assets/card.css">');
+    const stylesheet = files.find(({ fileName }) => fileName.endsWith('.css'))!;
+
+    expect(html).toBe(`<link rel="stylesheet" href="${stylesheet.fileName}">`);
+    expect(stylesheet.fileName).toMatch(/^assets\/card-[\w-]{8}\.css$/);
+    expect(stylesheet.source).toContain('url("logo.svg")');
+  });
+
+  it('keeps references to files that are not served or not allowed', async () => {
+    const html =
+      '<a href="/about">About</a><a href="/.env">Env</a><a href="/package.json">Package</a>' +
+      `<img src="/@fs${root}/.env"><img src="/src/../../outside.svg"><img src="https://example.com/logo.svg">`;
+
+    expect(await rewriteHtml(html)).toEqual({ html, files: [] });
+  });
+});
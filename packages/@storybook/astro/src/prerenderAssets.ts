@@ -0,0 +1,339 @@
+import { createHash } from 'node:crypto';
+import { statSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { basename, extname, join, posix, sep } from 'node:path';
+import { isFileLoadingAllowed, normalizePath, type Logger, type Rollup, type ViteDevServer } from 'vite';
+import type { TransformImage } from './middleware.ts';
+
+// Attributes whose value is a single URL
+const URL_ATTRIBUTES = new Set(['src', 'href', 'poster', 'data', 'xlink:href']);
+// Attributes whose value is a list of image candidates
+const SRCSET_ATTRIBUTES = new Set(['srcset', 'imagesrcset']);
+
+// Modules Vite serves as code. The bundle takes care of them (e.g. processed scripts).
+const CODE_FILE_REGEX = /\.(m?[jt]sx?|cjs|astro|vue|svelte)$/;
+const STYLESHEET_FILE_REGEX = /\.(css|scss|sass|less|styl|stylus|pcss|postcss)$/;
+
+// Elements that can contain other URLs than their attributes', and any other tag
+const TAG_REGEX =
+  /<(script|style)\b([^>]*)>([\s\S]*?)<\/\1\s*>|<[a-zA-Z][^\s/>]*(?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*\s*\/?>/gi;
+const ATTRIBUTE_REGEX = /(\s)([^\s=/>]+)(\s*=\s*)("[^"]*"|'[^']*'|[^\s>]+)/g;
+// Quotes may be escaped in attribute values (`style`)
+const CSS_URL_REGEX = /url\(\s*(["']|&quot;|&#34;|&#39;)?(.*?)\1\s*\)/g;
+const CSS_IMPORT_REGEX = /@import\s+(["'])(.*?)\1/g;
+// Dev-server URLs that can only reference files. They are also rewritten outside
+// of URL attributes, e.g. in the props of islands. Paths with spaces are only
+// found in attributes.
+const DEV_URL_REGEX = /\/(?:@fs\/|_image\?)(?:(?!&quot;|&#34;|&#39;)[^\s"'<>)\\])+/g;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&#38;': '&',
+  '&amp;': '&',
+  '&#34;': '"',
+  '&quot;': '"',
+  '&#39;': "'"
+};
+
+type DeferredFile = {
+  name: string;
+  source: string;
+  /** Stylesheets reference assets relative to their own location */
+  stylesheet?: boolean;
+};
+
+export type PrerenderAssets = {
+  /**
+   * Emits the files pre-rendered HTML references and replaces the references
+   * with placeholders of the emitted files. Each file is emitted once.
+   */
+  rewriteHtml(html: string, ctx: Rollup.PluginContext): Promise<string>;
+  /** Returns the placeholder of an HTML file emitted in `emitDeferredFiles` */
+  addHtml(name: string, html: string): string;
+  /** Emits the HTML files and stylesheets, whose placeholders must be resolved first */
+  emitDeferredFiles(ctx: Rollup.PluginContext): void;
+  /** Replaces placeholders with the paths of the emitted files */
+  resolvePlaceholders(code: string, ctx: Rollup.PluginContext): string;
+};
+
+/**
+ * Rewrites the URLs in pre-rendered HTML that point at the pre-render server,
+ * which don't exist in a static build, to files emitted into the build:
+ *
+ * - `/_image?...` URLs of `astro:assets` are run through the image service
+ * - `/@fs/...` URLs and root-relative paths of project files (e.g. `/src/...`)
+ *   or `public/` files are emitted as they are, if the pre-render server may
+ *   serve them
+ * - Stylesheets (e.g. `<link href="/src/styles/global.css">`) are processed by
+ *   Vite, and the URLs in them rewritten the same way
+ *
+ * References are found in URL attributes, `srcset` candidates, `url()` and
+ * `@import` in `style` attributes and `<style>` elements, and dev-server URLs
+ * anywhere. Emitted paths are relative, so they work under any base path;
+ * references that can't be resolved to a file (e.g. links to pages) are kept.
+ *
+ * Until the build writes its output, references are placeholders that
+ * `resolvePlaceholders` replaces with the final paths.
+ */
+export function createPrerenderAssets(
+  viteServer: ViteDevServer,
+  transformImage: TransformImage,
+  assetsDir: string,
+  logger: Logger | undefined
+): PrerenderAssets {
+  const { root, publicDir } = viteServer.config;
+  // Placeholders by the image URL or file they were emitted for
+  const emitted = new Map<string, Promise<string | undefined>>();
+  // Reference IDs of emitted files by placeholder
+  const refIds = new Map<string, string>();
+  const deferredFiles = new Map<string, DeferredFile>();
+  let deferredCount = 0;
+
+  // Files outside of `public/` follow Vite's `server.fs` rules, which deny e.g.
+  // `.env` files. Other files of the project than sources and dependencies
+  // (e.g. `/package.json`) are only emitted if the module graph knows them.
+  const isFileAllowed = (file: string) => {
+    const path = normalizePath(file);
+
+    if (!isFileLoadingAllowed(viteServer.config, path)) {
+      return false;
+    }
+
+    return (
+      !path.startsWith(`${root}/`) ||
+      ['src', 'node_modules'].some((dir) => path.startsWith(`${root}/${dir}/`)) ||
+      Boolean(viteServer.moduleGraph.getModulesByFile(path)?.size)
+    );
+  };
+
+  const emitAsset = (ctx: Rollup.PluginContext, name: string, source: string | Uint8Array) => {
+    const refId = ctx.emitFile({ type: 'asset', name, source });
+    const placeholder = `__ASTRO_PRERENDER_ASSET_${refId}__`;
+
+    refIds.set(placeholder, refId);
+
+    return placeholder;
+  };
+
+  // References to files that can't be emitted are kept, with one warning per file
+  const emitOnce = (key: string, emit: () => Promise<string | undefined>) => {
+    if (!emitted.has(key)) {
+      emitted.set(
+        key,
+        emit().catch((err) => {
+          logger?.warn(
+            `[storybook-astro] Failed to emit ${key} for pre-rendered HTML: ` +
+              (err instanceof Error ? err.message : String(err))
+          );
+
+          return undefined;
+        })
+      );
+    }
+
+    return emitted.get(key)!;
+  };
+
+  const rewriteUrls = async (
+    code: string,
+    mapUrls: (code: string, map: (url: string) => string) => string,
+    ctx: Rollup.PluginContext
+  ) => {
+    const urls = new Set<string>();
+
+    mapUrls(code, (url) => {
+      urls.add(url);
+
+      return url;
+    });
+
+    const replacements = new Map<string, string>();
+
+    for (const url of urls) {
+      const placeholder = await emitUrl(url, ctx);
+
+      if (placeholder) {
+        replacements.set(url, placeholder);
+      }
+    }
+
+    return mapUrls(code, (url) => replacements.get(url) ?? url);
+  };
+
+  const emitUrl = (rawUrl: string, ctx: Rollup.PluginContext) => {
+    const url = decodeHtmlEntities(rawUrl.trim());
+
+    if (url.startsWith('/_image?')) {
+      return emitOnce(url, async () => {
+        const { fsPath, data, format } = await transformImage(url, {
+          isFileAllowed: (path) => isFileLoadingAllowed(viteServer.config, normalizePath(path))
+        });
+
+        return emitAsset(ctx, `${basename(fsPath, extname(fsPath))}.${format}`, data);
+      });
+    }
+
+    const file = resolveFile(url, root, publicDir, isFileAllowed);
+
+    if (!file || CODE_FILE_REGEX.test(file)) {
+      return undefined;
+    }
+
+    return emitOnce(file, async () => {
+      if (!STYLESHEET_FILE_REGEX.test(file)) {
+        return emitAsset(ctx, basename(file), await readFile(file));
+      }
+
+      // Compiled the way Vite serves it, with its imports inlined
+      const { default: css } = await viteServer.ssrLoadModule(`${file}?inline`);
+      const source = await rewriteUrls(css, mapCssUrls, ctx);
+      const placeholder = `__ASTRO_PRERENDER_CSS_${deferredCount++}__`;
+
+      deferredFiles.set(placeholder, { name: basename(file, extname(file)), source, stylesheet: true });
+
+      return placeholder;
+    });
+  };
+
+  const resolvePlaceholders = (code: string, ctx: Rollup.PluginContext, from?: string) => {
+    let result = code;
+
+    for (const [placeholder, refId] of refIds) {
+      if (result.includes(placeholder)) {
+        const fileName = ctx.getFileName(refId);
+
+        result = result.replaceAll(placeholder, from ? posix.relative(from, fileName) : fileName);
+      }
+    }
+
+    return result;
+  };
+
+  return {
+    rewriteHtml: (html, ctx) => rewriteUrls(html, mapHtmlUrls, ctx),
+
+    addHtml(name, html) {
+      const placeholder = `__ASTRO_PRERENDER_HTML_${deferredCount++}__`;
+
+      deferredFiles.set(placeholder, { name, source: html });
+
+      return placeholder;
+    },
+
+    emitDeferredFiles(ctx) {
+      // Stylesheets are added before the HTML referencing them, so they are emitted first
+      for (const [placeholder, { name, source, stylesheet }] of deferredFiles) {
+        if (stylesheet) {
+          // Named after the content with assets resolved, so the path is known to resolve them
+          const resolved = resolvePlaceholders(source, ctx, assetsDir);
+          const hash = createHash('sha256').update(resolved).digest('base64url').slice(0, 8);
+          const fileName = posix.join(assetsDir, `${name}-${hash}.css`);
+
+          refIds.set(placeholder, ctx.emitFile({ type: 'asset', fileName, source: resolved }));
+        } else {
+          refIds.set(placeholder, ctx.emitFile({ type: 'asset', name, source: resolvePlaceholders(source, ctx) }));
+        }
+      }
+    },
+
+    resolvePlaceholders: (code, ctx) => resolvePlaceholders(code, ctx)
+  };
+}
+
+/**
+ * Resolves a root-relative URL to the file the pre-render server serves for it:
+ * an `/@fs/` path, a `public/` file, or a file of the project. Files outside of
+ * `public/` must pass `isFileAllowed`.
+ */
+function resolveFile(
+  url: string,
+  root: string,
+  publicDir: string,
+  isFileAllowed: (file: string) => boolean
+): string | undefined {
+  if (!url.startsWith('/') || url.startsWith('//')) {
+    return undefined;
+  }
+
+  let path: string;
+
+  try {
+    path = decodeURIComponent(url.split(/[?#]/)[0]);
+  } catch {
+    return undefined;
+  }
+
+  const candidates = path.startsWith('/@fs/')
+    ? [{ file: path.slice('/@fs'.length), isPublic: false }]
+    : [publicDir, root].filter(Boolean).map((dir) => {
+        const file = join(dir, path);
+
+        // No paths outside of the directory
+        return { file: file.startsWith(dir + sep) ? file : '', isPublic: dir === publicDir };
+      });
+
+  return candidates.find(({ file, isPublic }) => {
+    try {
+      return file !== '' && statSync(file).isFile() && (isPublic || isFileAllowed(file));
+    } catch {
+      return false;
+    }
+  })?.file;
+}
+
+/**
+ * Replaces the URLs of HTML: URL attributes, `srcset` candidates, CSS in `style`
+ * attributes and `<style>` elements, and dev-server URLs anywhere else.
+ */
+function mapHtmlUrls(html: string, map: (url: string) => string): string {
+  const mapTag = (tag: string) =>
+    tag.replace(ATTRIBUTE_REGEX, (match, space: string, name: string, equals: string, rawValue: string) => {
+      const attribute = name.toLowerCase();
+      const quote = rawValue[0] === '"' || rawValue[0] === "'" ? rawValue[0] : '';
+      const value = quote ? rawValue.slice(1, -1) : rawValue;
+      let mapped: string;
+
+      if (URL_ATTRIBUTES.has(attribute)) {
+        mapped = map(value);
+      } else if (SRCSET_ATTRIBUTES.has(attribute)) {
+        mapped = mapSrcsetUrls(value, map);
+      } else if (attribute === 'style') {
+        mapped = mapCssUrls(value, map);
+      } else {
+        return match;
+      }
+
+      return `${space}${name}${equals}${quote}${mapped}${quote}`;
+    });
+
+  return html
+    .replace(TAG_REGEX, (match, element: string | undefined, attributes: string, content: string) => {
+      if (!element) {
+        return mapTag(match);
+      }
+
+      const body = element.toLowerCase() === 'style' ? mapCssUrls(content, map) : content;
+
+      return `${mapTag(`<${element}${attributes}>`)}${body}</${element}>`;
+    })
+    .replace(DEV_URL_REGEX, map);
+}
+
+function mapSrcsetUrls(srcset: string, map: (url: string) => string): string {
+  return srcset
+    .split(',')
+    .map((candidate) => candidate.replace(/^(\s*)(\S+)/, (_match, space: string, url: string) => space + map(url)))
+    .join(',');
+}
+
+function mapCssUrls(css: string, map: (url: string) => string): string {
+  return css
+    .replace(
+      CSS_URL_REGEX,
+      (_match, quote: string | undefined, url: string) => `url(${quote ?? ''}${map(url)}${quote ?? ''})`
+    )
+    .replace(CSS_IMPORT_REGEX, (_match, quote: string, url: string) => `@import ${quote}${map(url)}${quote}`);
+}
+
+function decodeHtmlEntities(value: string): string {
+  return value.replace(/&#38;|&amp;|&#34;|&quot;|&#39;/g, (entity) => HTML_ENTITIES[entity]);
+}
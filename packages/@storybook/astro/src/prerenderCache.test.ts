@@ -0,0 +1,106 @@
+// @vitest-environment node
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Logger, ViteDevServer } from 'vite';
+import type { SerializedValue } from '@storybook/astro-renderer/serialization';
+import type { HandlerProps } from './middleware.ts';
+import { createPrerenderCache } from './prerenderCache.ts';
+
+type FakeModule = { file: string; importedModules: Set<FakeModule> };
+
+let root: string;
+let cacheDir: string;
+let component: string;
+let style: string;
+
+// Module graph of a component importing a stylesheet
+const createViteServer = () => {
+  const styleModule: FakeModule = { file: style, importedModules: new Set() };
+  const componentModule: FakeModule = { file: component, importedModules: new Set([styleModule]) };
+
+  return {
+    config: { root },
+    moduleGraph: {
+      getModulesByFile: (file: string) => (file === component ? new Set([componentModule]) : undefined),
+      getModuleById: () => undefined
+    }
+  } as unknown as ViteDevServer;
+};
+
+const createInput = (args: Record<string, SerializedValue> = {}): HandlerProps => ({ component, args, slots: {} });
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'storybook-astro-cache-'));
+  cacheDir = join(root, 'cache');
+  component = join(root, 'Card.astro');
+  style = join(root, 'card.css');
+  await writeFile(component, '<div class="card" />');
+  await writeFile(style, '.card {}');
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('createPrerenderCache', () => {
+  it('reuses the HTML of a previous build', async () => {
+    const render = vi.fn(async () => '<div class="card"></div>');
+
+    await createPrerenderCache(cacheDir, createViteServer(), {}, undefined).render(createInput(), render);
+    const html = await createPrerenderCache(cacheDir, createViteServer(), {}, undefined).render(createInput(), render);
+
+    expect(html).toBe('<div class="card"></div>');
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+
+  it('renders again when a dependency changed', async () => {
+    const render = vi.fn(async () => '<div class="card"></div>');
+
+    await createPrerenderCache(cacheDir, createViteServer(), {}, undefined).render(createInput(), render);
+    await writeFile(style, '.card { color: red; }');
+    await createPrerenderCache(cacheDir, createViteServer(), {}, undefined).render(createInput(), render);
+
+    expect(render).toHaveBeenCalledTimes(2);
+  });
+
+  it('keys entries by the input and the salt', async () => {
+    const render = vi.fn(async () => '<div class="card"></div>');
+    const cache = createPrerenderCache(cacheDir, createViteServer(), { remarkPlugins: [() => 'a'] }, undefined);
+
+    await cache.render(createInput(), render);
+    await cache.render(createInput({ title: 'Other' }), render);
+    await createPrerenderCache(cacheDir, createViteServer(), { remarkPlugins: [() => 'b'] }, undefined).render(
+      createInput(),
+      render
+    );
+
+    expect(render).toHaveBeenCalledTimes(3);
+  });
+
+  it('prunes the entries a build did not use', async () => {
+    const render = async () => '<div class="card"></div>';
+    const previousBuild = createPrerenderCache(cacheDir, createViteServer(), {}, undefined);
+
+    await previousBuild.render(createInput({ title: 'A' }), render);
+    await previousBuild.render(createInput({ title: 'B' }), render);
+
+    const build = createPrerenderCache(cacheDir, createViteServer(), {}, undefined);
+
+    await build.render(createInput({ title: 'A' }), render);
+    await build.prune();
+
+    expect(await readdir(cacheDir)).toHaveLength(1);
+  });
+
+  it('warns once when entries cannot be written', async () => {
+    const logger = { warn: vi.fn() } as unknown as Logger;
+    // A file where the cache directory should be
+    const cache = createPrerenderCache(component, createViteServer(), {}, logger);
+
+    expect(await cache.render(createInput({ title: 'A' }), async () => 'A')).toBe('A');
+    expect(await cache.render(createInput({ title: 'B' }), async () => 'B')).toBe('B');
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+});
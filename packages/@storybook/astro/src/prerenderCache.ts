@@ -0,0 +1,231 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Logger, ViteDevServer } from 'vite';
+import type { HandlerProps } from './middleware.ts';
+
+// Bump when the cached HTML no longer matches what the handler renders
+const CACHE_VERSION = 1;
+
+const LOCKFILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lock', 'bun.lockb'];
+
+// Content collections are read from the data store, which is not in the module graph
+const CONTENT_DATA_STORE = '.astro/data-store.json';
+
+// Args are deserialized with the project's serializers, which components don't import
+const ARG_SERIALIZERS_MODULE_ID = '\0virtual:astro-arg-serializers';
+
+type CacheEntry = {
+  html: string;
+  /** Content hash of every file the rendered components depend on, by path */
+  dependencies: Record<string, string>;
+};
+
+export type PrerenderCache = {
+  /**
+   * Returns the HTML of a previous build for the same input if none of the files
+   * it depends on have changed, or renders it and stores the result.
+   */
+  render(input: HandlerProps, render: () => Promise<string>): Promise<string>;
+  /** Removes entries the current build hasn't used */
+  prune(): Promise<void>;
+};
+
+/**
+ * Creates the on-disk cache of pre-rendered story HTML, reused across
+ * `storybook build` runs.
+ *
+ * Entries are keyed by the render input (component, serialized args and slots,
+ * document, request and content options) and `salt`, which holds the settings
+ * renders depend on besides the project's files; functions in it, like Markdown
+ * plugins, are compared by their source. Entries store the files the rendered
+ * components and the arg serializers depend on, collected from the pre-render
+ * server's module graph. An entry is only reused while all of them, the
+ * lockfile and the content data store still have the hashes they had when it
+ * was rendered.
+ */
+export function createPrerenderCache(
+  cacheDir: string,
+  viteServer: ViteDevServer,
+  salt: unknown,
+  logger: Logger | undefined
+): PrerenderCache {
+  const { root } = viteServer.config;
+  const fileHashes = new Map<string, Promise<string | null>>();
+  const usedKeys = new Set<string>();
+  const saltHash = createHash('sha256').update(stringifySalt(salt)).digest('hex');
+  let warned = false;
+
+  // Files don't change during a build, so each is hashed once
+  const hashFile = (file: string) => {
+    if (!fileHashes.has(file)) {
+      fileHashes.set(
+        file,
+        readFile(file).then(
+          (source) => createHash('sha256').update(source).digest('hex'),
+          () => null
+        )
+      );
+    }
+
+    return fileHashes.get(file)!;
+  };
+
+  const isUpToDate = async ({ dependencies }: CacheEntry) => {
+    const hashes = await Promise.all(
+      Object.entries(dependencies).map(async ([file, hash]) => (await hashFile(file)) === hash)
+    );
+
+    return hashes.every(Boolean);
+  };
+
+  const collectDependencies = async (input: HandlerProps) => {
+    const files = new Set([...LOCKFILES, CONTENT_DATA_STORE].map((file) => join(root, file)));
+    const pending = collectInputModules(input).flatMap((id) =>
+      Array.from(viteServer.moduleGraph.getModulesByFile(id) ?? [])
+    );
+    const serializersModule = viteServer.moduleGraph.getModuleById(ARG_SERIALIZERS_MODULE_ID);
+
+    if (serializersModule) {
+      pending.push(serializersModule);
+    }
+
+    const visited = new Set(pending);
+
+    while (pending.length > 0) {
+      const module = pending.pop()!;
+
+      if (module.file && !module.file.includes('/node_modules/')) {
+        files.add(module.file);
+      }
+
+      for (const imported of module.importedModules) {
+        if (!visited.has(imported)) {
+          visited.add(imported);
+          pending.push(imported);
+        }
+      }
+    }
+
+    const dependencies: Record<string, string> = {};
+
+    for (const file of files) {
+      const hash = await hashFile(file);
+
+      // Missing files (e.g. no lockfile) don't invalidate anything
+      if (hash) {
+        dependencies[file] = hash;
+      }
+    }
+
+    return dependencies;
+  };
+
+  const warn = (err: unknown) => {
+    if (!warned) {
+      warned = true;
+      logger?.warn(
+        `[storybook-astro] Failed to write pre-render cache: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  };
+
+  return {
+    async render(input, render) {
+      const key = createHash('sha256')
+        .update(JSON.stringify({ version: CACHE_VERSION, salt: saltHash, input }))
+        .digest('hex');
+      const file = join(cacheDir, `${key}.json`);
+
+      usedKeys.add(key);
+
+      try {
+        const entry: CacheEntry = JSON.parse(await readFile(file, 'utf-8'));
+
+        if (await isUpToDate(entry)) {
+          return entry.html;
+        }
+      } catch {
+        // Not cached yet
+      }
+
+      const html = await render();
+
+      try {
+        const entry: CacheEntry = { html, dependencies: await collectDependencies(input) };
+
+        await mkdir(cacheDir, { recursive: true });
+        await writeFile(file, JSON.stringify(entry));
+      } catch (err) {
+        warn(err);
+      }
+
+      return html;
+    },
+
+    async prune() {
+      const files = await readdir(cacheDir).catch(() => []);
+
+      await Promise.all(
+        files
+          .filter((file) => file.endsWith('.json') && !usedKeys.has(file.slice(0, -'.json'.length)))
+          .map((file) => rm(join(cacheDir, file), { force: true }))
+      );
+    }
+  };
+}
+
+/**
+ * Serializes the salt of cache keys. Functions are serialized as their source,
+ * and objects referenced more than once (or circularly) only the first time.
+ */
+function stringifySalt(salt: unknown): string {
+  const seen = new WeakSet<object>();
+
+  return JSON.stringify(salt, (_key, value) => {
+    if (typeof value === 'function') {
+      return `function:${value.toString()}`;
+    }
+
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+
+    if (value && typeof value === 'object') {
+      if (seen.has(value)) {
+        return undefined;
+      }
+
+      seen.add(value);
+    }
+
+    return value;
+  }) ?? '';
+}
+
+/**
+ * Lists the modules a render input imports: the component, the layout and the
+ * components passed as slots.
+ */
+function collectInputModules({ component, layout, slots }: HandlerProps): string[] {
+  const modules = [component];
+
+  if (layout) {
+    modules.push(layout.component);
+  }
+
+  const collectSlotModules = (slotsToCollect: NonNullable<HandlerProps['slots']>) => {
+    Object.values(slotsToCollect)
+      .flat()
+      .forEach((content) => {
+        if (typeof content !== 'string') {
+          modules.push(content.component);
+          collectSlotModules(content.slots);
+        }
+      });
+  };
+
+  collectSlotModules(slots ?? {});
+
+  return modules;
+}
@@ -1,8 +1,12 @@
 import type { StorybookConfigVite, FrameworkOptions } from './types.ts';
 import { vitePluginStorybookAstroMiddleware } from './viteStorybookAstroMiddlewarePlugin.ts';
 import { viteStorybookRendererFallbackPlugin } from './viteStorybookRendererFallbackPlugin.ts';
+import { viteAstroArgSerializersPlugin } from './viteAstroArgSerializersPlugin.ts';
 import { vitePluginAstroComponentMarker } from './vitePluginAstroComponentMarker.ts';
+import { vitePluginAstroImageMarker } from './vitePluginAstroImageMarker.ts';
+import { vitePluginFrameworkComponentMarker } from './vitePluginFrameworkComponentMarker.ts';
 import { vitePluginAstroBuildPrerender } from './vitePluginAstroBuildPrerender.ts';
+import { vitePluginAstroRenderServer } from './vitePluginAstroRenderServer.ts';
 import { mergeWithAstroConfig } from './vitePluginAstro.ts';
 
 export const core = {
@@ -10,7 +14,7 @@ export const core = {
   renderer: '@storybook/astro-renderer'
 };
 
-export const viteFinal: StorybookConfigVite['viteFinal'] = async (config, { presets }) => {
+export const viteFinal: StorybookConfigVite['viteFinal'] = async (config, { presets, configDir }) => {
   const options = await presets.apply<FrameworkOptions>('frameworkOptions');
   const { vitePlugin: storybookAstroMiddlewarePlugin, viteConfig } =
     await vitePluginStorybookAstroMiddleware(options);
@@ -22,11 +26,18 @@ export const viteFinal: StorybookConfigVite['viteFinal'] = async (config, { pres
   config.plugins.push(
     storybookAstroMiddlewarePlugin,
     viteStorybookRendererFallbackPlugin(options.integrations),
+    viteAstroArgSerializersPlugin(options.serializers),
     vitePluginAstroComponentMarker() as any,
-    vitePluginAstroBuildPrerender(options.integrations) as any,
+    vitePluginAstroImageMarker(),
+    vitePluginFrameworkComponentMarker(),
+    vitePluginAstroBuildPrerender(options, configDir) as any,
     ...viteConfig.plugins
   );
 
+  if (options.renderServer) {
+    config.plugins.push(vitePluginAstroRenderServer(options));
+  }
+
   // Add React/ReactDOM aliases for storybook-solidjs compatibility
   if (!config.resolve) {
     config.resolve = {};
@@ -0,0 +1,90 @@
+// @vitest-environment node
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HandlerOptions, HandlerProps, HandlerResult } from './middleware.ts';
+import { createRenderEndpoint } from './renderEndpoint.ts';
+
+const handler = vi.fn(
+  async (_data: HandlerProps, _options?: HandlerOptions): Promise<HandlerResult> => ({ html: '<h1>Hello</h1>', cookies: [] })
+);
+
+let server: Server;
+let url: string;
+
+const post = (body: string, contentType = 'application/json') =>
+  fetch(url, { method: 'POST', headers: { 'Content-Type': contentType }, body });
+
+beforeEach(async () => {
+  const endpoint = createRenderEndpoint({ handler });
+
+  server = createServer((req, res) => void endpoint(req, res));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  handler.mockClear();
+  vi.restoreAllMocks();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('createRenderEndpoint', () => {
+  it('renders a component', async () => {
+    const response = await post(JSON.stringify({ component: '/src/Card.astro', args: { title: 'Hello' } }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ html: '<h1>Hello</h1>', cookies: [], component: '/src/Card.astro' });
+    expect(handler).toHaveBeenCalledWith(
+      { component: '/src/Card.astro', args: { title: 'Hello' }, slots: {} },
+      { signal: expect.any(AbortSignal) }
+    );
+  });
+
+  it('only accepts POST requests', async () => {
+    const response = await fetch(url);
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('POST');
+  });
+
+  it('only accepts JSON bodies', async () => {
+    const response = await post(JSON.stringify({ component: '/src/Card.astro' }), 'text/plain');
+
+    expect(response.status).toBe(415);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid input', async () => {
+    const invalidJson = await post('{ component');
+    const missingComponent = await post(JSON.stringify({ args: {} }));
+    const storyId = await post(JSON.stringify({ storyId: 'card--default' }));
+
+    expect(invalidJson.status).toBe(400);
+    expect(await invalidJson.json()).toEqual({ error: { message: 'Request body must be JSON' } });
+    expect(missingComponent.status).toBe(400);
+    expect(await missingComponent.json()).toEqual({
+      error: { message: 'Either "component" or "storyId" is required' }
+    });
+    // Stories are loaded through the internal server, which the endpoint wasn't given
+    expect(storyId.status).toBe(400);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects bodies that are too large', async () => {
+    const response = await post(JSON.stringify({ component: '/src/Card.astro', args: { text: 'a'.repeat(1024 * 1024) } }));
+
+    expect(response.status).toBe(413);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('responds with render errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    handler.mockRejectedValueOnce(new Error('Missing prop'));
+
+    const response = await post(JSON.stringify({ component: '/src/Card.astro' }));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ error: { message: 'Missing prop', component: '/src/Card.astro' } });
+  });
+});
@@ -0,0 +1,211 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { isIPv6 } from 'node:net';
+import { resolve, sep } from 'node:path';
+import type { ViteDevServer } from 'vite';
+import { deserializeArgs, type ArgSerializer } from '@storybook/astro-renderer/serialization';
+import type { RenderError } from '@storybook/astro-renderer/types';
+import type { HandlerOptions, HandlerProps, HandlerResult } from './middleware.ts';
+import type { $FIXME } from './types.ts';
+import { createRenderError } from './renderError.ts';
+import { createStoryRenderInput } from './storyRenderInput.ts';
+
+export const RENDER_ENDPOINT_ROUTE = '/__storybook_astro/render';
+
+// Largest request body accepted, in bytes
+const MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Body of a `POST /__storybook_astro/render` request. Either `component` (path
+ * of the `.astro` file) or `storyId` is required. A story is rendered with its
+ * args and `parameters.astro`; `args` and `slots` given here override the
+ * story's. Args may use the tagged format of `serializeArgs`.
+ */
+export type RenderEndpointRequest = Partial<HandlerProps> & {
+  storyId?: string;
+};
+
+export type RenderEndpointResponse =
+  | (HandlerResult & { component: string })
+  | { error: Pick<RenderError, 'message'> & Partial<RenderError> };
+
+type RenderEndpointOptions = {
+  handler: (data: HandlerProps, options?: HandlerOptions) => Promise<HandlerResult>;
+  /** Internal server stories are loaded through; without it, only components can be rendered. */
+  viteServer?: ViteDevServer;
+};
+
+/**
+ * Error for requests that can't be rendered, answered with `status`.
+ */
+class RenderEndpointError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Creates the middleware serving `POST /__storybook_astro/render`, which renders
+ * a component or story with the same handler as the canvas, so renders can be
+ * scripted (curl, Playwright fixtures, other tools). Responds with the HTML and
+ * the cookies the component set, or with the render error. The render server of
+ * static builds serves it too, for the canvas.
+ *
+ * Only JSON bodies are accepted, and components are only loaded from files of
+ * the project (see `resolveProjectModule`).
+ */
+export function createRenderEndpoint({ handler, viteServer }: RenderEndpointOptions) {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendJson(res, 405, { error: { message: 'Use POST to render a component' } });
+
+      return;
+    }
+
+    // Stop rendering when the client goes away
+    const controller = new AbortController();
+
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+
+    let input: HandlerProps;
+
+    try {
+      // Cross-site pages can send other types without a CORS preflight
+      if (req.headers['content-type']?.split(';')[0].trim().toLowerCase() !== 'application/json') {
+        throw new RenderEndpointError('Content-Type must be application/json', 415);
+      }
+
+      input = await resolveRenderInput(await readJsonBody(req), req, viteServer);
+    } catch (err) {
+      const status = err instanceof RenderEndpointError ? err.status : 400;
+
+      if (status === 413) {
+        // Don't receive the rest of the body
+        res.setHeader('Connection', 'close');
+        res.on('finish', () => req.destroy());
+      }
+
+      sendJson(res, status, { error: { message: err instanceof Error ? err.message : String(err) } });
+
+      return;
+    }
+
+    try {
+      const result = await handler(input, { signal: controller.signal });
+
+      sendJson(res, 200, { ...result, component: input.component });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      const error = createRenderError(err, input.component, viteServer);
+
+      console.error(`[storybook-astro] Render error in ${error.component}:`, error.stack ?? error.message);
+      sendJson(res, 500, { error });
+    }
+  };
+}
+
+/**
+ * Turns the request body into handler input, loading the story when a story id
+ * is given. Story ids are looked up in the Storybook index of the same server,
+ * requested from the address it is bound to (not the `Host` of the request).
+ */
+async function resolveRenderInput(
+  body: RenderEndpointRequest,
+  req: IncomingMessage,
+  viteServer?: ViteDevServer
+): Promise<HandlerProps> {
+  const { storyId, ...input } = body;
+
+  if (!storyId) {
+    if (typeof input.component !== 'string') {
+      throw new RenderEndpointError('Either "component" or "storyId" is required', 400);
+    }
+
+    return { ...input, component: input.component, args: input.args ?? {}, slots: input.slots ?? {} };
+  }
+
+  if (!viteServer) {
+    throw new RenderEndpointError('Stories can only be rendered by id in storybook dev', 400);
+  }
+
+  const { localAddress = 'localhost', localPort } = req.socket;
+  const host = isIPv6(localAddress) ? `[${localAddress}]` : localAddress;
+  const origin = `${'encrypted' in req.socket ? 'https' : 'http'}://${host}:${localPort}`;
+  const index = await (await fetch(new URL('/index.json', origin))).json();
+  const entry = index.entries?.[storyId];
+
+  if (entry?.type !== 'story') {
+    throw new RenderEndpointError(`Unknown story "${storyId}"`, 404);
+  }
+
+  const { root } = viteServer.config;
+  const storyFile = resolve(root, String(entry.importPath));
+
+  if (!storyFile.startsWith(root + sep)) {
+    throw new RenderEndpointError(`Story "${storyId}" is outside the project`, 404);
+  }
+
+  const storyModule = await viteServer.ssrLoadModule(storyFile);
+  const story = storyModule[entry.exportName];
+
+  if (!story) {
+    throw new RenderEndpointError(`Story "${storyId}" is not exported from ${entry.importPath}`, 404);
+  }
+
+  // Loaded through the SSR server, so `instanceof` checks match the classes story modules use
+  const serializers: ArgSerializer<$FIXME>[] = (await viteServer.ssrLoadModule('virtual:astro-arg-serializers'))
+    .default;
+
+  const storyInput = createStoryRenderInput(
+    storyModule.default ?? {},
+    story,
+    serializers,
+    deserializeArgs(input.args ?? {}, serializers)
+  );
+
+  return { ...storyInput, slots: { ...storyInput.slots, ...input.slots } };
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<RenderEndpointRequest> {
+  const tooLarge = new RenderEndpointError(`Request body must not exceed ${MAX_BODY_SIZE} bytes`, 413);
+
+  if (Number(req.headers['content-length']) > MAX_BODY_SIZE) {
+    throw tooLarge;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+
+    if (size > MAX_BODY_SIZE) {
+      throw tooLarge;
+    }
+
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new RenderEndpointError('Request body must be JSON', 400);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: RenderEndpointResponse) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,109 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import type { ViteDevServer } from 'vite';
+import type { RenderError } from '@storybook/astro-renderer/types';
+
+// Matches the location at the end of a stack frame: `at fn (/path/file.astro:3:21)`
+const STACK_LOCATION_REGEX = /\(?((?:file:\/\/)?\/[^():]+|[a-zA-Z]:\\[^():]+):(\d+):(\d+)\)?$/;
+const CODE_FRAME_CONTEXT_LINES = 2;
+
+type ErrorLocation = NonNullable<RenderError['loc']>;
+
+type AstroErrorLike = Error & {
+  hint?: string;
+  frame?: string;
+  loc?: Partial<ErrorLocation>;
+};
+
+/**
+ * Converts an error thrown while rendering into the `RenderError` sent to the
+ * canvas. The stack is mapped back to the component sources through the internal
+ * server, and the location the error was thrown from gets a code frame. Astro's
+ * own errors (e.g. compiler errors) already carry a location, frame and hint.
+ */
+export function createRenderError(
+  error: unknown,
+  component: string,
+  viteServer?: ViteDevServer | null
+): RenderError {
+  if (!(error instanceof Error)) {
+    return { message: String(error), component };
+  }
+
+  const astroError = error as AstroErrorLike;
+
+  viteServer?.ssrFixStacktrace(astroError);
+
+  const loc = resolveLocation(astroError);
+
+  return {
+    name: astroError.name,
+    message: astroError.message,
+    stack: astroError.stack,
+    hint: astroError.hint,
+    loc,
+    frame: astroError.frame ?? (loc && generateCodeFrame(loc)),
+    component
+  };
+}
+
+/**
+ * Takes the error's own location, or else the first stack frame in project code
+ * (skipping Astro's runtime and this package).
+ */
+function resolveLocation(error: AstroErrorLike): ErrorLocation | undefined {
+  const { file, line, column } = error.loc ?? {};
+
+  if (file && line) {
+    return { file, line, column: column ?? 1 };
+  }
+
+  const packageDir = fileURLToPath(new URL('.', import.meta.url));
+
+  for (const frame of error.stack?.split('\n').slice(1) ?? []) {
+    const match = frame.trim().match(STACK_LOCATION_REGEX);
+
+    if (!match) {
+      continue;
+    }
+
+    const path = match[1].startsWith('file://') ? fileURLToPath(match[1]) : match[1];
+
+    if (!path.includes('/node_modules/') && !path.startsWith(packageDir)) {
+      return { file: path, line: Number(match[2]), column: Number(match[3]) };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Renders the source lines around a location, marking the line and column.
+ */
+function generateCodeFrame({ file, line, column }: ErrorLocation): string | undefined {
+  let lines: string[];
+
+  try {
+    lines = readFileSync(file, 'utf-8').split(/\r?\n/);
+  } catch {
+    return undefined;
+  }
+
+  const start = Math.max(line - 1 - CODE_FRAME_CONTEXT_LINES, 0);
+  const end = Math.min(line + CODE_FRAME_CONTEXT_LINES, lines.length);
+  const gutterWidth = String(end).length;
+
+  return lines
+    .slice(start, end)
+    .flatMap((source, index) => {
+      const lineNumber = start + index + 1;
+      const gutter = String(lineNumber).padStart(gutterWidth);
+
+      if (lineNumber !== line) {
+        return [`  ${gutter} | ${source}`];
+      }
+
+      return [`> ${gutter} | ${source}`, `  ${' '.repeat(gutterWidth)} | ${' '.repeat(Math.max(column - 1, 0))}^`];
+    })
+    .join('\n');
+}
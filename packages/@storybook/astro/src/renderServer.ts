@@ -0,0 +1,121 @@
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { createServer, type ServerResponse } from 'node:http';
+import { dirname, extname, join, resolve, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { handlerFactory, transformImage } from './middleware.ts';
+import { createRenderEndpoint, RENDER_ENDPOINT_ROUTE } from './renderEndpoint.ts';
+
+/**
+ * Entry of the render server that `storybook build` emits with the `renderServer`
+ * framework option (see `vitePluginAstroRenderServer`). Serves the static
+ * Storybook it is emitted into and renders Astro components through the same
+ * handler as `storybook dev`, so the canvas can render stories with any args.
+ *
+ * Listens on `PORT` (default 6006) and `HOST`.
+ */
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2'
+};
+
+const serverDir = dirname(fileURLToPath(import.meta.url));
+const staticDir = resolve(serverDir, '..');
+
+const handler = await handlerFactory([]);
+const renderEndpoint = createRenderEndpoint({ handler });
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+  if (pathname === RENDER_ENDPOINT_ROUTE) {
+    await renderEndpoint(req, res);
+  } else if (pathname === '/_image') {
+    await serveImage(req.url ?? '', res);
+  } else {
+    await serveFile(pathname, res);
+  }
+});
+const port = Number(process.env.PORT ?? 6006);
+
+server.listen(port, process.env.HOST, () => {
+  // eslint-disable-next-line no-console -- the address to open
+  console.log(`[storybook-astro] Serving Storybook with Astro rendering at http://localhost:${port}`);
+});
+
+/**
+ * Serves `/_image` URLs of rendered components with the configured image service.
+ * Images are read from the static Storybook or the assets of the server bundle.
+ */
+async function serveImage(imageUrl: string, res: ServerResponse) {
+  try {
+    const { data, format } = await transformImage(imageUrl, { assetDirs: [staticDir, serverDir] });
+
+    res.setHeader('Content-Type', CONTENT_TYPES[`.${format}`] ?? `image/${format}`);
+    res.setHeader('Cache-Control', 'public, max-age=31536000');
+    res.end(data);
+  } catch (err) {
+    console.error('[storybook-astro] Image optimization error:', err instanceof Error ? err.message : err);
+    res.statusCode = 500;
+    res.end('Could not process image request');
+  }
+}
+
+/**
+ * Serves a file of the static Storybook. The server bundle itself and packages
+ * installed next to it (e.g. sharp) are not served.
+ */
+async function serveFile(pathname: string, res: ServerResponse) {
+  let filePath: string;
+
+  try {
+    filePath = resolve(staticDir, `.${decodeURIComponent(pathname)}`);
+  } catch {
+    res.statusCode = 400;
+    res.end();
+
+    return;
+  }
+
+  const isServed =
+    (filePath === staticDir || filePath.startsWith(staticDir + sep)) &&
+    ![serverDir, join(staticDir, 'node_modules')].some((dir) => filePath === dir || filePath.startsWith(dir + sep));
+
+  try {
+    if (!isServed) {
+      throw new Error('Not served');
+    }
+
+    if ((await stat(filePath)).isDirectory()) {
+      filePath = join(filePath, 'index.html');
+    }
+
+    if (!(await stat(filePath)).isFile()) {
+      throw new Error('Not a file');
+    }
+  } catch {
+    res.statusCode = 404;
+    res.end('Not found');
+
+    return;
+  }
+
+  res.setHeader('Content-Type', CONTENT_TYPES[extname(filePath)] ?? 'application/octet-stream');
+  createReadStream(filePath).pipe(res);
+}
@@ -0,0 +1,123 @@
+import {
+  serializeArgs,
+  serializeSlots,
+  type ArgSerializer,
+  type SerializedValue
+} from '@storybook/astro-renderer/serialization';
+import type { HandlerProps } from './middleware.ts';
+import type { $FIXME } from './types.ts';
+
+/**
+ * Builds the render handler input for a story of a story module loaded on the
+ * server (by the HTTP render endpoint), the way the canvas does in the browser:
+ * meta and story args are merged, and `parameters.astro` provides the document,
+ * layout, request and content fixture options.
+ *
+ * Story modules loaded on the server import the real component factories, so
+ * `moduleId` is the absolute path of the `.astro` file.
+ */
+export function createStoryRenderInput(
+  meta: Record<string, $FIXME>,
+  story: Record<string, $FIXME>,
+  serializers: ArgSerializer<$FIXME>[],
+  args: Record<string, unknown> = {}
+): HandlerProps {
+  const component = story.component ?? meta.component;
+
+  if (!component?.isAstroComponentFactory || !component.moduleId) {
+    throw new Error('Story component must be an Astro component');
+  }
+
+  return createRenderInput(
+    component.moduleId,
+    { ...meta.args, ...story.args, ...args },
+    { ...meta.parameters?.astro, ...story.parameters?.astro },
+    serializers
+  );
+}
+
+/**
+ * Builds the render handler input for a story composed with `composeStories`,
+ * whose project, meta and story annotations are already merged. The story
+ * function is called the way the canvas calls it, so render functions and
+ * decorators pick the component that is rendered.
+ *
+ * Returns `null` when the story doesn't render an Astro component, e.g.
+ * stories delegated to a framework renderer.
+ */
+export function createComposedStoryRenderInput(
+  composedStory: $FIXME,
+  serializers: ArgSerializer<$FIXME>[],
+  args: Record<string, unknown> = {}
+): HandlerProps | null {
+  // Framework renderers render these stories in the browser
+  if (composedStory.parameters?.renderer) {
+    return null;
+  }
+
+  const component = composedStory(args);
+
+  if (!component?.isAstroComponentFactory || !component.moduleId) {
+    return null;
+  }
+
+  return createRenderInput(
+    component.moduleId,
+    { ...composedStory.args, ...args },
+    composedStory.parameters?.astro ?? {},
+    serializers
+  );
+}
+
+function createRenderInput(
+  component: string,
+  args: Record<string, unknown>,
+  astroParameters: Record<string, $FIXME>,
+  serializers: ArgSerializer<$FIXME>[]
+): HandlerProps {
+  // Args go through the same serialization as in dev, so components receive the same values
+  const serialize = (value: unknown) => serializeArgs(value, serializers);
+  const { slots = {}, ...componentArgs } = args;
+
+  return {
+    component,
+    args: serialize(componentArgs),
+    slots: serializeSlots((slots ?? {}) as Record<string, $FIXME>, serializers),
+    ...resolveDocumentOptions(astroParameters, serialize),
+    request: {
+      url: astroParameters.url,
+      headers: astroParameters.headers,
+      cookies: astroParameters.cookies,
+      params: astroParameters.params,
+      locals: serialize(astroParameters.locals ?? {})
+    },
+    content: astroParameters.content
+  };
+}
+
+/**
+ * Converts `parameters.astro` document/layout settings into handler options.
+ */
+function resolveDocumentOptions(
+  astroParameters: Record<string, $FIXME>,
+  serialize: (value: unknown) => SerializedValue
+): Pick<HandlerProps, 'document' | 'layout'> {
+  const { document, layout } = astroParameters;
+
+  if (!layout) {
+    return { document: Boolean(document) };
+  }
+
+  const { component, args = {} } = layout.isAstroComponentFactory
+    ? { component: layout }
+    : layout;
+
+  if (!component?.moduleId) {
+    throw new Error('parameters.astro.layout must be an Astro component');
+  }
+
+  return {
+    document: true,
+    layout: { component: component.moduleId, args: serialize(args) }
+  };
+}
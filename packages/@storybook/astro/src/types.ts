@@ -10,6 +10,35 @@ export type $FIXME = any;
 export type { Integration };
 export type FrameworkOptions = {
   integrations: Integration[];
+  /**
+   * Path, relative to the project root, of a module whose default export is an
+   * array of `ArgSerializer`s for arg types that can't be sent to the render
+   * server as they are (e.g. instances of your own classes).
+   */
+  serializers?: string;
+  /**
+   * Also emit a Node server with `storybook build` (`<outputDir>/server/index.mjs`)
+   * that serves the static Storybook and renders Astro components live, so
+   * stories can be rendered with any args. Start it with
+   * `node <outputDir>/server/index.mjs`.
+   */
+  renderServer?: boolean;
+  /** Pre-rendering of Astro stories in `storybook build`. */
+  prerender?: {
+    /** Number of stories rendered at the same time. Defaults to the number of CPUs. */
+    concurrency?: number;
+    /**
+     * Reuse the HTML of previous builds for stories whose component, the files
+     * it imports and args haven't changed. Cached in
+     * `node_modules/.cache/storybook-astro/prerender`. Defaults to `true`.
+     */
+    cache?: boolean;
+    /**
+     * Fail the build when an Astro story, or one of its `prerenderArgs`
+     * combinations, can't be pre-rendered, instead of shipping it without HTML.
+     */
+    strict?: boolean;
+  };
 };
 
 type StorybookConfigFramework = {
@@ -4,4 +4,19 @@ declare module 'virtual:astro-container-renderers' {
   export function addRenderers(container: AstroContainer): void;
 }
 
-declare module 'virtual:storybook-renderer-fallback' {}
\ No newline at end of file
+declare module 'virtual:storybook-renderer-fallback' {}
+
+declare module 'virtual:astro-arg-serializers' {
+  import type { ArgSerializer } from '@storybook/astro-renderer/serialization';
+  import type { $FIXME } from '@storybook/astro-renderer/types';
+
+  const serializers: ArgSerializer<$FIXME>[];
+
+  export default serializers;
+}
+
+declare module 'virtual:astro-render-modules' {
+  import type { $FIXME } from '@storybook/astro-renderer/types';
+
+  export function loadModule(id: string): Promise<Record<string, $FIXME>>;
+}
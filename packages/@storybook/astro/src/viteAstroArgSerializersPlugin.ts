@@ -0,0 +1,38 @@
+import { resolve } from 'node:path';
+
+/**
+ * Exposes the arg serializers from the framework's `serializers` option as
+ * `virtual:astro-arg-serializers`. The module is imported by the renderer, to
+ * serialize args, and by the render handler, to deserialize them, so both sides
+ * always use the same serializers.
+ */
+export function viteAstroArgSerializersPlugin(serializers?: string) {
+  const name = 'astro-arg-serializers';
+  const virtualModuleId = `virtual:${name}`;
+  const resolvedVirtualModuleId = `\0${virtualModuleId}`;
+  let root = process.cwd();
+
+  return {
+    name,
+
+    configResolved(config: { root: string }) {
+      root = config.root;
+    },
+
+    resolveId(id: string) {
+      if (id === virtualModuleId) {
+        return resolvedVirtualModuleId;
+      }
+    },
+
+    load(id: string) {
+      if (id === resolvedVirtualModuleId) {
+        if (!serializers) {
+          return 'export default [];';
+        }
+
+        return `export { default } from ${JSON.stringify(resolve(root, serializers))};`;
+      }
+    }
+  };
+}
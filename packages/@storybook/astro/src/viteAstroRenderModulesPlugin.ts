@@ -0,0 +1,92 @@
+import { existsSync } from 'node:fs';
+import { isAbsolute, resolve, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Exposes `loadModule` as `virtual:astro-render-modules`, which the render
+ * handler imports components, layouts and images through. The internal server
+ * imports files of the project by path. Given `modules`, as in the render server
+ * bundle, only those modules are bundled and can be loaded.
+ */
+export function viteAstroRenderModulesPlugin(modules?: string[]) {
+  const name = 'astro-render-modules';
+  const virtualModuleId = `virtual:${name}`;
+  const resolvedVirtualModuleId = `\0${virtualModuleId}`;
+  const pluginModulePath = fileURLToPath(import.meta.url);
+  let root = process.cwd();
+
+  return {
+    name,
+
+    configResolved(config: { root: string }) {
+      root = config.root;
+    },
+
+    resolveId(id: string) {
+      if (id === virtualModuleId) {
+        return resolvedVirtualModuleId;
+      }
+    },
+
+    load(id: string) {
+      if (id === resolvedVirtualModuleId) {
+        if (!modules) {
+          // Ids come from render requests, so they must not reach `import()` unchecked
+          return `
+            import { resolveProjectModule } from ${JSON.stringify(pluginModulePath)};
+
+            export async function loadModule(id) {
+              return import(/* @vite-ignore */ resolveProjectModule(id, ${JSON.stringify(root)}));
+            }
+          `;
+        }
+
+        const loaders = modules.map((moduleId) => `${JSON.stringify(moduleId)}: () => import(${JSON.stringify(moduleId)})`);
+
+        return `
+          const modules = {
+            ${loaders.join(',\n')}
+          };
+
+          export function loadModule(id) {
+            if (!Object.hasOwn(modules, id)) {
+              return Promise.reject(new Error(\`Module \${id} is not part of the render server\`));
+            }
+
+            return modules[id]();
+          }
+        `;
+      }
+    }
+  };
+}
+
+/**
+ * Resolves the id of a module to render to a file inside `root`: an absolute
+ * path, or a path relative to the root like `/src/components/Card.astro`.
+ * Anything else, e.g. `data:` or `http:` URLs, ids with a query or files
+ * outside the project, is rejected.
+ *
+ * @throws {Error} If the id isn't a file in the project.
+ */
+export function resolveProjectModule(id: string, root: string): string {
+  const candidates: string[] = [];
+
+  if (!/[?#\0]/.test(id)) {
+    if (isAbsolute(id)) {
+      candidates.push(resolve(id));
+    }
+
+    if (id.startsWith('/')) {
+      candidates.push(resolve(root, `.${id}`));
+    }
+  }
+
+  const path = candidates.find((candidate) => candidate.startsWith(resolve(root) + sep) && existsSync(candidate));
+
+  if (!path) {
+    throw new Error(`Module ${id} is not a file in the project`);
+  }
+
+  return path;
+}
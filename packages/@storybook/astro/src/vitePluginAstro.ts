@@ -1,6 +1,9 @@
 import { mergeConfig, type InlineConfig } from 'vite';
 import type { Integration } from './integrations/index.ts';
 
+// Content collection plugins are only removed from Storybook's client-side config:
+// `astro:content` is server-only and is served by the internal SSR server instead
+// (see vitePluginAstroContent).
 const ASTRO_PLUGINS_THAT_ARE_SUPPOSEDLY_NOT_NEEDED_IN_STORYBOOK = [
   '@astro/plugin-actions',
   '@astrojs/vite-plugin-astro-ssr-manifest',
@@ -1,149 +1,294 @@
-import { readFileSync } from 'node:fs';
+import { readdirSync } from 'node:fs';
+import { availableParallelism } from 'node:os';
 import { fileURLToPath } from 'node:url';
-import { basename } from 'node:path';
-import type { Plugin, ViteDevServer } from 'vite';
-import type { Integration } from './integrations/index.ts';
-import type { HandlerProps } from './middleware.ts';
-import { createViteServer } from './viteStorybookAstroMiddlewarePlugin.ts';
+import { basename, join, relative, resolve } from 'node:path';
+import type { Logger, Plugin, Rollup, ViteDevServer } from 'vite';
+import type { HandlerProps, HandlerResult } from './middleware.ts';
+import type { $FIXME, FrameworkOptions } from './types.ts';
+import { createArgsKey, type ArgSerializer } from '@storybook/astro-renderer/serialization';
+import { createViteServer, getAstroConfig } from './viteStorybookAstroMiddlewarePlugin.ts';
+import { createComposedStoryRenderInput } from './storyRenderInput.ts';
+import { createPrerenderCache, type PrerenderCache } from './prerenderCache.ts';
+import { createPrerenderAssets, type PrerenderAssets } from './prerenderAssets.ts';
+
+// Upper bound of the arg combinations pre-rendered per story
+const MAX_PRERENDER_VARIANTS = 100;
+
+const PREVIEW_FILE_REGEX = /^preview\.(jsx?|tsx?|mjs|mts)$/;
+
+// Directory of the pre-render cache, relative to the project root
+const CACHE_DIR = 'node_modules/.cache/storybook-astro/prerender';
+
+// Report of the pre-rendered stories, written to the output directory
+const REPORT_FILE = 'astro-prerender-report.json';
+
+type PrerenderReportEntry = {
+  /** Story file, relative to the project root */
+  file: string;
+  /** Export name; missing when the story file itself couldn't be loaded */
+  story?: string;
+  id?: string;
+  status: 'prerendered' | 'skipped' | 'failed';
+  /** Number of `prerenderArgs` combinations pre-rendered */
+  variants?: number;
+  /** Why the story isn't pre-rendered */
+  reason?: string;
+  /** Args of a `prerenderArgs` combination that failed to render */
+  args?: Record<string, unknown>;
+  error?: string;
+};
 
 /**
  * Vite plugin that pre-renders Astro component stories at build time.
  *
  * During `storybook build`, this plugin:
  * 1. Creates an internal Vite SSR server with AstroContainer
- * 2. Detects story files that import Astro components
- * 3. Loads each story module via ssrLoadModule to get fully evaluated args
+ * 2. Loads each story module via ssrLoadModule to get fully evaluated args
  *    (including imported assets, computed values, etc.)
- * 4. Renders each story variant using AstroContainer
- * 5. Injects the pre-rendered HTML as a story parameter (`__astroPrerendered`)
+ * 3. Composes its stories with the project annotations of `.storybook/preview`
+ *    and calls them like the canvas does, so render functions and decorators
+ *    resolve the Astro component each story renders (CSF factories included)
+ * 4. Renders each Astro story using AstroContainer, and emits the images,
+ *    stylesheets and other files the HTML references (see `createPrerenderAssets`)
+ * 5. Emits the pre-rendered HTML as content-hashed assets and injects their
+ *    paths as a story parameter (`__astroPrerendered`)
+ * 6. Renders the combinations of the values listed in
+ *    `parameters.astro.prerenderArgs`, injected by args key
+ *    (`__astroPrerenderedVariants`)
+ *
+ * Renders run concurrently (`prerender.concurrency`, defaults to the number of
+ * CPUs), and their HTML is cached in `node_modules/.cache/storybook-astro` so
+ * later builds reuse the stories whose components, dependencies and args are
+ * unchanged (see `createPrerenderCache`). `prerender.cache: false` disables it.
+ *
+ * At the end of the build, a summary lists the stories that were skipped or
+ * failed, and `astro-prerender-report.json` in the output directory records the
+ * outcome of every story. With `prerender.strict`, the build fails when any
+ * story (or `prerenderArgs` combination) can't be pre-rendered.
  *
- * The renderer checks for this parameter in static builds and uses the
- * pre-rendered HTML directly instead of showing a fallback message.
+ * The renderer checks for these parameters in static builds and fetches the
+ * pre-rendered HTML when the story is shown instead of showing a fallback
+ * message, so story bundles don't carry the HTML of every story and variant.
  *
  * Limitations:
- * - Controls panel changes won't update Astro components (HTML is static)
- * - Build time increases with the number of Astro stories
- * - Stories that override the meta component are skipped
+ * - Controls panel changes only update Astro components for the args listed in
+ *   `prerenderArgs` (HTML is static)
+ * - Build time increases with the number of Astro stories and variants
+ * - Loaders don't run, and stories delegated to a framework renderer or
+ *   re-exported from another module (`export { Story } from`) are skipped
  */
-export function vitePluginAstroBuildPrerender(integrations: Integration[]): Plugin {
+export function vitePluginAstroBuildPrerender(options: FrameworkOptions, configDir?: string): Plugin {
   let viteServer: ViteDevServer | null = null;
-  let handler: ((data: HandlerProps) => Promise<string>) | null = null;
+  let handler: ((data: HandlerProps) => Promise<HandlerResult>) | null = null;
+  let serializers: ArgSerializer<$FIXME>[] = [];
+  let composeStories: ((storiesImport: $FIXME, projectAnnotations?: $FIXME) => Record<string, $FIXME>) | null =
+    null;
+  let projectAnnotations: $FIXME;
+  let cache: PrerenderCache | null = null;
+  // Kept until the output is generated, which happens after buildEnd
+  let assets: PrerenderAssets | null = null;
+  let assetsDir = 'assets';
+  let cacheDir = '';
+  let root = process.cwd();
+  let logger: Logger | undefined;
+  // Why the pre-render server couldn't be created, if it couldn't
+  let setupError: string | undefined;
+  const report: PrerenderReportEntry[] = [];
 
-  // Maps placeholder strings to Rollup emitted-file reference IDs.
-  // Placeholders are injected into pre-rendered HTML during transform,
-  // then resolved to final asset paths in renderChunk.
-  const assetRefIds = new Map<string, string>();
+  const limit = createLimit(options.prerender?.concurrency ?? availableParallelism());
 
   return {
     name: 'storybook-astro-build-prerender',
     apply: 'build',
     enforce: 'post',
 
+    configResolved(config) {
+      root = config.root;
+      cacheDir = resolve(config.root, CACHE_DIR);
+      logger = config.logger;
+      assetsDir = config.build.assetsDir;
+    },
+
     async buildStart() {
       try {
-        viteServer = await createViteServer(integrations);
+        viteServer = await createViteServer(options);
 
         const filePath = fileURLToPath(new URL('./middleware', import.meta.url));
         const middleware = await viteServer.ssrLoadModule(filePath, {
           fixStacktrace: true
         });
-        handler = await middleware.handlerFactory(integrations);
+        handler = await middleware.handlerFactory(options.integrations);
+        assets = createPrerenderAssets(viteServer, middleware.transformImage, assetsDir, logger);
+        // Loaded through the SSR server, so `instanceof` checks match the classes story modules use
+        serializers = (await viteServer.ssrLoadModule('virtual:astro-arg-serializers')).default;
+        ({ composeStories } = await viteServer.ssrLoadModule(
+          fileURLToPath(new URL('./portable-stories', import.meta.url))
+        ));
       } catch (err) {
-        console.warn(
-          '[storybook-astro] Failed to create pre-render server:',
-          err instanceof Error ? err.message : err
-        );
+        // Reported at the end of the build
+        setupError = formatError(err);
+
+        if (options.prerender?.strict) {
+          this.error(`[storybook-astro] Failed to create pre-render server: ${setupError}`);
+        }
+
+        return;
+      }
+
+      projectAnnotations = await loadProjectAnnotations(viteServer, configDir, logger);
+
+      if (options.prerender?.cache !== false) {
+        // Renders depend on the integrations and the config they resolve (e.g.
+        // Markdown and image settings) as well as on the project's files
+        cache = createPrerenderCache(cacheDir, viteServer, {
+          integrations: options.integrations.map(({ name, options: integrationOptions }) => ({
+            name,
+            options: integrationOptions
+          })),
+          serializers: options.serializers,
+          astroConfig: getAstroConfig(viteServer)
+        }, logger);
       }
     },
 
     async transform(code, id) {
-      if (!handler || !viteServer) return null;
+      if (!handler || !viteServer || !composeStories || !assets) return null;
 
       // Only process story files
       if (!/\.stories\.(jsx?|tsx?|mjs)$/.test(id)) return null;
 
-      // Parse AST to find .astro imports
-      const ast = this.parse(code);
-      const astroImport = findFirstAstroImport(ast);
-      if (!astroImport) return null;
-
-      // Resolve the .astro import to an absolute path
-      const resolved = await this.resolve(astroImport.source, id);
-      if (!resolved) return null;
-      const componentPath = resolved.id;
+      const file = relative(root, id);
 
       // Load the story module via SSR to get fully evaluated args
-      let storyModule: Record<string, any>;
+      let composedStories: Record<string, $FIXME>;
+      let storyBindings: Map<string, string>;
       try {
-        storyModule = await viteServer.ssrLoadModule(id);
+        composedStories = composeStories(await viteServer.ssrLoadModule(id), projectAnnotations);
+        storyBindings = collectExportBindings(this.parse(code));
       } catch (err) {
-        console.warn(
-          `[storybook-astro] Failed to load story for pre-render: ${id}`,
-          err instanceof Error ? err.message : err
-        );
+        report.push({ file, status: 'failed', error: formatError(err) });
+
         return null;
       }
 
-      const meta = storyModule.default || {};
+      const prerender = (input: HandlerProps) =>
+        limit(async () => {
+          const render = async () => (await handler!(input)).html;
+          const html = cache ? await cache.render(input, render) : await render();
 
-      // Confirm the meta component is an Astro component
-      if (!meta.component?.isAstroComponentFactory) return null;
+          // URLs of the pre-render server become placeholders of emitted files,
+          // resolved to their final paths in renderStart and renderChunk
+          return assets!.rewriteHtml(html, this);
+        });
 
-      // Find all named exports that are story objects
-      const storyNames = Object.keys(storyModule).filter(
-        (k) =>
-          k !== 'default' &&
-          k !== '__esModule' &&
-          typeof storyModule[k] === 'object' &&
-          storyModule[k] !== null
-      );
+      // Pre-render each story. Stories, and the variants of each, render
+      // concurrently up to the concurrency limit; results are collected in
+      // export order so the output doesn't depend on which finishes first.
+      const results = await Promise.all(
+        Object.entries(composedStories).map(async ([name, composedStory]) => {
+          const entry: PrerenderReportEntry = { file, story: name, id: composedStory.id, status: 'prerendered' };
+          const entries = [entry];
+          let html: string;
+
+          // The parameters are patched onto the story's local binding
+          if (!storyBindings.has(name)) {
+            entry.status = 'skipped';
+            entry.reason = 'Re-exported from another module';
+
+            return { entries };
+          }
+
+          try {
+            const input = createComposedStoryRenderInput(composedStory, serializers);
+
+            if (!input) {
+              const renderer = composedStory.parameters?.renderer;
+
+              entry.status = 'skipped';
+              entry.reason = renderer
+                ? `Rendered in the browser by the ${renderer} renderer`
+                : "Doesn't render an Astro component";
+
+              return { entries };
+            }
 
-      if (storyNames.length === 0) return null;
+            html = await prerender(input);
+          } catch (err) {
+            entry.status = 'failed';
+            entry.error = formatError(err);
 
-      // Pre-render each story
+            return { entries };
+          }
+
+          const prerenderArgs = composedStory.parameters?.astro?.prerenderArgs ?? {};
+          const variants = await Promise.all(
+            createArgVariants(prerenderArgs, `"${name}" in ${id}`, logger).map(async (variantArgs) => {
+              try {
+                const input = createComposedStoryRenderInput(composedStory, serializers, variantArgs);
+
+                return input && ([createArgsKey(variantArgs, serializers), await prerender(input)] as const);
+              } catch (err) {
+                entries.push({
+                  file,
+                  story: name,
+                  id: composedStory.id,
+                  status: 'failed',
+                  args: variantArgs,
+                  error: formatError(err)
+                });
+
+                return null;
+              }
+            })
+          ).then((results) => results.filter((variant) => variant !== null));
+
+          entry.variants = variants.length;
+
+          return { entries, name, html, variants };
+        })
+      );
       const prerendered: Record<string, string> = {};
+      const prerenderedVariants: Record<string, Record<string, string>> = {};
 
-      for (const name of storyNames) {
-        const story = storyModule[name];
+      // Story modules only reference the HTML, which the renderer fetches when the story is shown
+      const emitHtml = (name: string, html: string) =>
+        assets!.addHtml(`${basename(id).replace(/\.stories\.\w+$/, '')}-${name}.html`, html);
 
-        // Skip stories that override the component — the resolved path
-        // corresponds to the meta component and may not match
-        if (story.component && story.component !== meta.component) continue;
+      for (const result of results) {
+        report.push(...result.entries);
 
-        // Merge meta args with story args (story args take precedence)
-        const mergedArgs = { ...meta.args, ...story.args };
-        const { slots = {}, ...componentArgs } = mergedArgs;
+        // Skipped or failed
+        if (result.html === undefined) continue;
 
-        try {
-          const html = await handler({
-            component: componentPath,
-            args: componentArgs,
-            slots: (slots ?? {}) as Record<string, unknown>
-          });
-          // Rewrite /@fs dev-server URLs to Rollup asset placeholders.
-          // The actual files are emitted via this.emitFile and the
-          // placeholders are resolved to final paths in renderChunk.
-          prerendered[name] = emitAndRewriteAssetUrls(html, this, assetRefIds);
-        } catch (err) {
-          console.warn(
-            `[storybook-astro] Pre-render failed for "${name}" in ${id}:`,
-            err instanceof Error ? err.message : err
+        prerendered[result.name] = emitHtml(result.name, result.html);
+
+        if (result.variants.length > 0) {
+          prerenderedVariants[result.name] = Object.fromEntries(
+            result.variants.map(([key, html]) => [key, emitHtml(result.name, html)])
           );
         }
       }
 
       if (Object.keys(prerendered).length === 0) return null;
 
-      // Append code that injects pre-rendered HTML as story parameters.
+      // Append code that injects the pre-rendered HTML files as story parameters.
       // This runs as module-level side effects during import, before
-      // Storybook reads the story exports.
-      const injections = Object.entries(prerendered).map(
-        ([name, html]) =>
-          `if (typeof ${name} !== 'undefined' && ${name} && typeof ${name} === 'object') {\n` +
-          `  ${name}.parameters = Object.assign({}, ${name}.parameters, ` +
-          `{ __astroPrerendered: ${JSON.stringify(html)} });\n` +
+      // Storybook reads the story exports. CSF factory stories keep their
+      // annotations in `input`.
+      const injections = Object.entries(prerendered).map(([name, htmlFile]) => {
+        const local = storyBindings.get(name)!;
+        const parameters = {
+          __astroPrerendered: htmlFile,
+          ...(prerenderedVariants[name] && { __astroPrerenderedVariants: prerenderedVariants[name] })
+        };
+
+        return (
+          `if (${local} && typeof ${local} === 'object') {\n` +
+          `  const __astroAnnotations = ${local}._tag === 'Story' ? ${local}.input : ${local};\n` +
+          `  __astroAnnotations.parameters = Object.assign({}, __astroAnnotations.parameters, ${JSON.stringify(parameters)});\n` +
           `}`
-      );
+        );
+      });
 
       return {
         code:
@@ -154,84 +299,230 @@ export function vitePluginAstroBuildPrerender(integrations: Integration[]): Plug
       };
     },
 
+    renderStart() {
+      assets?.emitDeferredFiles(this);
+    },
+
     renderChunk(code) {
-      if (assetRefIds.size === 0) return null;
+      if (!assets) return null;
 
-      let result = code;
-      let modified = false;
+      const result = assets.resolvePlaceholders(code, this);
 
-      for (const [placeholder, refId] of assetRefIds) {
-        if (!result.includes(placeholder)) continue;
-        const fileName = this.getFileName(refId);
-        result = result.replaceAll(placeholder, fileName);
-        modified = true;
-      }
+      return result !== code ? { code: result, map: null } : null;
+    },
 
-      return modified ? { code: result, map: null } : null;
+    generateBundle() {
+      // Transforms finish in any order
+      const stories = report.sort((a, b) => a.file.localeCompare(b.file));
+      const count = (status: PrerenderReportEntry['status']) =>
+        stories.filter((entry) => entry.status === status).length;
+      const summary = { prerendered: count('prerendered'), skipped: count('skipped'), failed: count('failed') };
+
+      this.emitFile({
+        type: 'asset',
+        fileName: REPORT_FILE,
+        source: JSON.stringify({ ...summary, ...(setupError && { error: setupError }), stories }, null, 2)
+      });
+
+      logPrerenderSummary(stories, summary, setupError, logger);
     },
 
-    async buildEnd() {
+    writeBundle() {
+      const failed = report.filter((entry) => entry.status === 'failed');
+
+      // After the report is written, so it can be inspected
+      if (options.prerender?.strict && failed.length > 0) {
+        this.error(
+          `[storybook-astro] ${failed.length} pre-render(s) failed with prerender.strict enabled, ` +
+            `see ${REPORT_FILE} in the output directory`
+        );
+      }
+    },
+
+    async buildEnd(error) {
+      // Entries of stories that no longer exist or changed would never be read again
+      if (cache && !error) {
+        await cache.prune();
+      }
+
+      cache = null;
+
       if (viteServer) {
         await viteServer.close();
         viteServer = null;
         handler = null;
+        serializers = [];
+        composeStories = null;
+        projectAnnotations = undefined;
       }
     }
   };
 }
 
 /**
- * Finds the first import declaration with a .astro source in the ESTree AST.
+ * Maps the names a module exports to the local bindings they export, e.g.
+ * `Primary` to `Local` for `export { Local as Primary }`. Re-exports from other
+ * modules have no local binding and are left out.
  */
-function findFirstAstroImport(
-  ast: any
-): { local: string; source: string } | null {
-  for (const node of ast.body) {
-    if (
-      node.type === 'ImportDeclaration' &&
-      typeof node.source.value === 'string' &&
-      node.source.value.endsWith('.astro')
-    ) {
-      const defaultSpecifier = node.specifiers?.find(
-        (s: any) => s.type === 'ImportDefaultSpecifier'
-      );
-      if (defaultSpecifier) {
-        return {
-          local: defaultSpecifier.local.name,
-          source: node.source.value
-        };
+function collectExportBindings(program: Rollup.ProgramNode): Map<string, string> {
+  const bindings = new Map<string, string>();
+
+  for (const node of program.body) {
+    if (node.type !== 'ExportNamedDeclaration' || node.source) {
+      continue;
+    }
+
+    if (node.declaration?.type === 'VariableDeclaration') {
+      for (const { id } of node.declaration.declarations) {
+        if (id.type === 'Identifier') {
+          bindings.set(id.name, id.name);
+        }
       }
+    } else if (node.declaration?.id) {
+      bindings.set(node.declaration.id.name, node.declaration.id.name);
+    }
+
+    for (const { local, exported } of node.specifiers) {
+      if (local.type === 'Identifier') {
+        bindings.set(exported.type === 'Identifier' ? exported.name : String(exported.value), local.name);
+      }
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Logs which stories were pre-rendered, skipped and failed.
+ */
+function logPrerenderSummary(
+  stories: PrerenderReportEntry[],
+  summary: Record<PrerenderReportEntry['status'], number>,
+  setupError: string | undefined,
+  logger: Logger | undefined
+) {
+  if (setupError) {
+    logger?.warn(`[storybook-astro] Astro stories were not pre-rendered, the pre-render server failed: ${setupError}`);
+
+    return;
+  }
+
+  const describe = ({ file, story, args }: PrerenderReportEntry) =>
+    `${story ? `"${story}" in ` : ''}${file}${args ? ` with args ${JSON.stringify(args)}` : ''}`;
+
+  logger?.info(
+    `[storybook-astro] Pre-rendered ${summary.prerendered} stories, skipped ${summary.skipped}, failed ${summary.failed}`
+  );
+
+  for (const entry of stories) {
+    if (entry.status === 'skipped') {
+      logger?.info(`  skipped ${describe(entry)}: ${entry.reason}`);
+    } else if (entry.status === 'failed') {
+      logger?.warn(`  failed ${describe(entry)}: ${entry.error}`);
     }
   }
-  return null;
+}
+
+function formatError(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Loads the project annotations (decorators, parameters, args, ...) of
+ * `.storybook/preview` through the pre-render server. Stories are composed
+ * without them if there is no preview file or it can't be loaded on the server.
+ */
+async function loadProjectAnnotations(
+  viteServer: ViteDevServer,
+  configDir: string | undefined,
+  logger: Logger | undefined
+): Promise<$FIXME> {
+  let previewFile: string | undefined;
+
+  try {
+    previewFile = configDir && readdirSync(configDir).find((file) => PREVIEW_FILE_REGEX.test(file));
+  } catch {
+    // No config directory to read
+  }
+
+  if (!previewFile) {
+    return undefined;
+  }
+
+  try {
+    const preview = await viteServer.ssrLoadModule(join(configDir!, previewFile));
+
+    return preview.default ?? preview;
+  } catch (err) {
+    logger?.warn(
+      `[storybook-astro] Failed to load ${previewFile} for pre-render, stories are rendered without its decorators: ` +
+        (err instanceof Error ? err.message : String(err))
+    );
+
+    return undefined;
+  }
 }
 
 /**
- * Finds /@fs dev-server URLs in pre-rendered HTML, emits the referenced
- * files as Rollup assets, and replaces the URLs with placeholders that
- * are resolved to final paths in renderChunk.
+ * Creates a function that runs the async functions it is given with at most
+ * `concurrency` of them pending at a time.
  */
-function emitAndRewriteAssetUrls(
-  html: string,
-  ctx: any,
-  refIds: Map<string, string>
-): string {
-  // Match /@fs URLs in HTML attribute values.
-  // The URL may have a query string with HTML-encoded & (&#38;).
-  // Note: file paths may contain spaces, so we match until the closing quote.
-  return html.replace(/\/@fs([^"'>]+)/g, (fullMatch, rawPath: string) => {
-    // Strip query string (may contain &#38; or &)
-    const pathOnly = rawPath.split('?')[0];
-
-    try {
-      const source = readFileSync(pathOnly);
-      const name = basename(pathOnly);
-      const refId = ctx.emitFile({ type: 'asset', name, source });
-      const placeholder = `__ASTRO_PRERENDER_ASSET_${refId}__`;
-      refIds.set(placeholder, refId);
-      return placeholder;
-    } catch {
-      return fullMatch;
+function createLimit(concurrency: number) {
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    if (active < Math.max(1, concurrency) && queue.length > 0) {
+      active++;
+      queue.shift()!();
     }
-  });
+  };
+
+  return <T>(fn: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(async () => {
+        try {
+          resolve(await fn());
+        } catch (err) {
+          reject(err);
+        } finally {
+          active--;
+          next();
+        }
+      });
+      next();
+    });
+}
+
+/**
+ * Lists the combinations of the arg values in `parameters.astro.prerenderArgs`
+ * (one entry per arg, listing its values), up to `MAX_PRERENDER_VARIANTS`.
+ */
+function createArgVariants(
+  prerenderArgs: Record<string, unknown>,
+  story: string,
+  logger: Logger | undefined
+): Record<string, unknown>[] {
+  const entries = Object.entries(prerenderArgs).filter(
+    (entry): entry is [string, unknown[]] => Array.isArray(entry[1]) && entry[1].length > 0
+  );
+
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const variants = entries.reduce<Record<string, unknown>[]>(
+    (combinations, [name, values]) =>
+      combinations.flatMap((combination) => values.map((value) => ({ ...combination, [name]: value }))),
+    [{}]
+  );
+
+  if (variants.length > MAX_PRERENDER_VARIANTS) {
+    logger?.warn(
+      `[storybook-astro] ${story} has ${variants.length} prerenderArgs combinations; ` +
+        `only the first ${MAX_PRERENDER_VARIANTS} are pre-rendered`
+    );
+  }
+
+  return variants.slice(0, MAX_PRERENDER_VARIANTS);
 }
@@ -1,5 +1,9 @@
 import { readFileSync } from 'node:fs';
-import type { PluginOption } from 'vite';
+import type { Plugin, PluginOption } from 'vite';
+import { createComponentDocgen, type ComponentDocgen } from './componentDocgen.ts';
+
+// Style sub-module imports in the SSR output of Astro's compiler
+const STYLE_IMPORT_REGEX = /import\s+"([^"]+\?astro&type=style&index=\d+&lang\.\w+)"/g;
 
 /**
  * Vite plugin that patches Astro 6's client-side .astro file transforms for Storybook.
@@ -13,12 +17,20 @@ import type { PluginOption } from 'vite';
  * that the Astro Vite plugin exposes. Without this, the client-side stub would strip all
  * CSS since Astro 6 no longer includes style imports in client-side .astro transforms.
  *
- * During builds, Astro's compile metadata cache is not populated for client-side transforms,
- * so style sub-module imports would fail. Instead, raw CSS is extracted directly from the
- * .astro source and inlined.
+ * During builds, Astro only compiles .astro files for SSR, so its compile metadata
+ * (which the style sub-modules are loaded from) is missing for client-side transforms.
+ * The component is compiled the way SSR transforms it instead, which fills the metadata
+ * and lists the component's style sub-modules. Vite then bundles the same scoped and
+ * preprocessed CSS as in dev into CSS assets, loaded with the stories that import the
+ * component.
+ *
+ * The stub carries the `__docgenInfo` of the props the component declares (see
+ * `createComponentDocgen`), which the renderer turns into argTypes.
  */
 export function vitePluginAstroComponentMarker(): PluginOption {
   let isBuild = false;
+  let astroBuildPlugin: Plugin | undefined;
+  let docgen: Promise<ComponentDocgen | null> | undefined;
 
   return {
     name: 'storybook-astro-component-marker',
@@ -26,9 +38,10 @@ export function vitePluginAstroComponentMarker(): PluginOption {
 
     configResolved(config) {
       isBuild = config.command === 'build';
+      astroBuildPlugin = config.plugins.find((plugin) => plugin.name === 'astro:build');
     },
 
-    transform(code: string, id: string) {
+    async transform(code: string, id: string) {
       // Only process main .astro modules (not sub-modules like ?astro&type=style)
       if (!id.endsWith('.astro')) return null;
 
@@ -37,13 +50,12 @@ export function vitePluginAstroComponentMarker(): PluginOption {
 
       const moduleId = id;
 
-      // In dev mode, import style sub-modules via Astro's Vite plugin (which has
-      // compile metadata cached from the SSR transform).
-      // In build mode, Astro's compile metadata cache is not populated for client-side
-      // transforms, so sub-module imports would fail. Extract raw CSS instead.
+      // In dev mode, Astro's Vite plugin has compile metadata cached from the SSR
+      // transform. In build mode, compile the component for it first.
       const styleCode = isBuild
-        ? generateInlineStyles(moduleId)
+        ? await generateBuildStyleImports(this, astroBuildPlugin, moduleId)
         : generateStyleImports(moduleId);
+      const docgenInfo = generateDocgenInfo(await (docgen ??= createComponentDocgen()), moduleId);
 
       return {
         code: `
@@ -53,6 +65,7 @@ const __astro_component = () => {
 };
 __astro_component.isAstroComponentFactory = true;
 __astro_component.moduleId = ${JSON.stringify(moduleId)};
+${docgenInfo ? `__astro_component.__docgenInfo = ${JSON.stringify(docgenInfo)};` : ''}
 export default __astro_component;
 `,
         map: null,
@@ -61,6 +74,27 @@ export default __astro_component;
   };
 }
 
+/**
+ * Reads the original .astro source file and describes the props it declares.
+ * Components are still rendered if their props can't be described.
+ */
+function generateDocgenInfo(docgen: ComponentDocgen | null, filePath: string) {
+  if (!docgen) {
+    return null;
+  }
+
+  try {
+    return docgen.getDocgenInfo(filePath, readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    console.warn(
+      `[storybook-astro] Failed to generate the argTypes of ${filePath}:`,
+      err instanceof Error ? err.message : err
+    );
+
+    return null;
+  }
+}
+
 /**
  * Reads the original .astro source file and generates import statements
  * for each <style> block, using the Astro Vite plugin's sub-module convention.
@@ -78,56 +112,6 @@ function generateStyleImports(filePath: string): string {
   }
 }
 
-/**
- * Reads the original .astro source file and generates a JS snippet that injects
- * the raw CSS from each <style> block into the document. Used during builds where
- * Astro's compile metadata cache is unavailable.
- *
- * The CSS is unscoped (no Astro scoping transforms), which is acceptable because
- * Astro components show a fallback message in static builds.
- */
-function generateInlineStyles(filePath: string): string {
-  try {
-    const source = readFileSync(filePath, 'utf-8');
-    const cssBlocks = extractStyleBlocks(source);
-
-    if (cssBlocks.length === 0) return '';
-
-    // Create a side-effect that injects styles into the document
-    return cssBlocks.map((css, i) => {
-      const escaped = JSON.stringify(css);
-      return `
-(function() {
-  if (typeof document !== 'undefined') {
-    const style = document.createElement('style');
-    style.setAttribute('data-astro-build', ${JSON.stringify(filePath + ':' + i)});
-    style.textContent = ${escaped};
-    document.head.appendChild(style);
-  }
-})();`;
-    }).join('\n');
-  } catch {
-    return '';
-  }
-}
-
-/**
- * Extracts the content of all top-level <style> blocks from an Astro component's source.
- * Strips frontmatter before parsing.
- */
-function extractStyleBlocks(source: string): string[] {
-  const withoutFrontmatter = source.replace(/^---[\s\S]*?---/m, '');
-  const blocks: string[] = [];
-  const regex = /<style(?:\s[^>]*)?>([\s\S]*?)<\/style>/g;
-  let match;
-
-  while ((match = regex.exec(withoutFrontmatter)) !== null) {
-    blocks.push(match[1].trim());
-  }
-
-  return blocks;
-}
-
 /**
  * Counts the number of top-level <style> blocks in an Astro component's source.
  * Only counts opening tags that are NOT inside the frontmatter fence (---).
@@ -139,3 +123,39 @@ function countStyleBlocks(source: string): number {
   const matches = withoutFrontmatter.match(/<style(\s|>)/g);
   return matches ? matches.length : 0;
 }
+
+/**
+ * Compiles an Astro component with Astro's Vite plugin as its SSR transform does,
+ * which caches the compile metadata the style sub-modules are loaded from, and
+ * generates the style imports of the compiled module. Unlike counting `<style>`
+ * blocks, this leaves out `is:inline` styles, which stay in the component's HTML.
+ */
+async function generateBuildStyleImports(
+  ctx: unknown,
+  astroBuildPlugin: Plugin | undefined,
+  filePath: string
+): Promise<string> {
+  const hook = astroBuildPlugin?.transform;
+  const transform = typeof hook === 'function' ? hook : hook?.handler;
+
+  if (!transform) {
+    return '';
+  }
+
+  try {
+    const source = readFileSync(filePath, 'utf-8');
+    const result = await transform.call(ctx as ThisParameterType<typeof transform>, source, filePath, { ssr: true });
+    const compiled = typeof result === 'string' ? result : (result?.code ?? '');
+
+    return Array.from(compiled.matchAll(STYLE_IMPORT_REGEX), ([, styleId]) => `import ${JSON.stringify(styleId)};`).join(
+      '\n'
+    );
+  } catch (err) {
+    console.warn(
+      `[storybook-astro] Failed to compile the styles of ${filePath}:`,
+      err instanceof Error ? err.message : err
+    );
+
+    return '';
+  }
+}
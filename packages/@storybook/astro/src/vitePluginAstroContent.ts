@@ -0,0 +1,347 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { AstroIntegration } from 'astro';
+import type { Plugin } from 'vite';
+import type { Integration } from './integrations/index.ts';
+
+const CONTENT_CONFIG_FILES = [
+  'src/content.config.ts',
+  'src/content.config.mts',
+  'src/content.config.js',
+  'src/content.config.mjs',
+  // Legacy location
+  'src/content/config.ts',
+  'src/content/config.mts',
+  'src/content/config.js',
+  'src/content/config.mjs'
+];
+
+const CONTENT_DIR = 'src/content';
+
+// Where the internal servers, which run in this process, read the Markdown settings from
+const MARKDOWN_CONFIG = Symbol.for('storybook-astro.markdown-config');
+
+/** Markdown settings of the resolved Astro config, as integrations receive them */
+export type MarkdownConfig = Parameters<
+  NonNullable<AstroIntegration['hooks']['astro:config:done']>
+>[0]['config']['markdown'];
+
+/**
+ * Vite plugin that makes `astro:content` usable in Storybook's internal SSR server.
+ *
+ * Content collections are read from a data store that `astro dev` fills by running
+ * the content layer sync at startup. The internal server never runs that sync, so
+ * `getCollection` and `getEntry` would find nothing. This plugin:
+ *
+ * 1. Runs Astro's `sync()` when the server starts, writing the data store to
+ *    `.astro/`, where the dev-mode content plugin reads it from. Builds (the
+ *    render server bundle) sync before building and bundle the data store
+ * 2. Re-runs the sync when files in `src/content` or the content config change
+ * 3. Wraps `astro:content` so stories can replace collections with fixture
+ *    entries (`parameters.astro.content`) for the duration of a render. Their
+ *    bodies are rendered with `markdownConfig`, the project's resolved Markdown settings
+ *
+ * The sync, the wrapped `astro:content` module and the Markdown processor come from
+ * the project's own Astro install. The framework package may resolve a different Astro version, whose
+ * content module does not match the content runtime the project's components use.
+ *
+ * Must be placed before Astro's plugins so it resolves `astro:content` first.
+ */
+export function vitePluginAstroContent(integrations: Integration[], markdownConfig?: MarkdownConfig): Plugin {
+  const virtualModuleId = 'astro:content';
+  const resolvedVirtualModuleId = '\0storybook-astro:content';
+  const runtimeModuleId = 'storybook-astro:content-runtime';
+  const resolvedRuntimeModuleId = '\0' + runtimeModuleId;
+  const markdownConfigModuleId = 'storybook-astro:markdown-config';
+  const resolvedMarkdownConfigModuleId = '\0' + markdownConfigModuleId;
+  let root = process.cwd();
+  let isBuild = false;
+  const fixturesModulePath = fileURLToPath(new URL('./contentFixtures.ts', import.meta.url));
+
+  return {
+    name: 'storybook-astro-content',
+    enforce: 'pre',
+
+    configResolved(config) {
+      root = config.root;
+      isBuild = config.command === 'build';
+    },
+
+    async buildStart() {
+      if (isBuild && CONTENT_CONFIG_FILES.some((file) => existsSync(join(root, file)))) {
+        await syncContentLayer(root, integrations, 'build');
+      }
+    },
+
+    async configureServer(server) {
+      (globalThis as Record<symbol, unknown>)[MARKDOWN_CONFIG] = markdownConfig;
+
+      const configFile = CONTENT_CONFIG_FILES.map((file) => join(root, file)).find(existsSync);
+
+      if (!configFile) {
+        return;
+      }
+
+      await syncContentLayer(root, integrations);
+
+      const contentDir = join(root, CONTENT_DIR);
+      let pendingSync = Promise.resolve();
+      let timeoutId: NodeJS.Timeout | undefined;
+
+      server.watcher.add([configFile, contentDir]);
+      server.watcher.on('all', (_event, path) => {
+        if (path !== configFile && !path.startsWith(contentDir)) {
+          return;
+        }
+
+        // Debounce bursts of file events (e.g. editor saves, git checkouts)
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(() => {
+          pendingSync = pendingSync
+            .then(() => syncContentLayer(root, integrations))
+            .catch((err) => {
+              console.error('[storybook-astro] Content sync failed:', err instanceof Error ? err.message : err);
+            });
+        }, 100);
+      });
+    },
+
+    resolveId(id) {
+      if (id === virtualModuleId) {
+        return resolvedVirtualModuleId;
+      }
+
+      if (id === runtimeModuleId) {
+        return resolvedRuntimeModuleId;
+      }
+
+      if (id === markdownConfigModuleId) {
+        return resolvedMarkdownConfigModuleId;
+      }
+    },
+
+    load(id) {
+      if (id === resolvedVirtualModuleId) {
+        return buildContentWrapper(root, runtimeModuleId, markdownConfigModuleId, fixturesModulePath);
+      }
+
+      if (id === resolvedRuntimeModuleId) {
+        return buildContentRuntime(root);
+      }
+
+      if (id === resolvedMarkdownConfigModuleId) {
+        // The render server bundle runs in its own process, so its settings are written into it
+        if (!isBuild) {
+          return `export default globalThis[Symbol.for(${JSON.stringify(MARKDOWN_CONFIG.description)})];`;
+        }
+
+        return buildMarkdownConfigModule(markdownConfig, (message) => this.warn(message));
+      }
+    }
+  };
+}
+
+/**
+ * Runs Astro's content layer sync. For a dev server (`command: 'serve'`),
+ * `cacheDir` points at `.astro/` so the data store ends up where it reads it;
+ * builds read it from the default cache directory.
+ */
+async function syncContentLayer(root: string, integrations: Integration[], command: 'serve' | 'build' = 'serve') {
+  const { sync } = await import(pathToFileURL(resolveProjectAstro(root)).href);
+
+  await sync({
+    root,
+    configFile: false,
+    ...(command === 'serve' && { cacheDir: './.astro/' }),
+    logLevel: 'warn',
+    integrations: await Promise.all(
+      integrations.map((integration) => integration.loadIntegration())
+    )
+  });
+}
+
+/**
+ * Resolves the entry point of the Astro package installed in the project.
+ */
+function resolveProjectAstro(root: string) {
+  return createRequire(join(root, 'package.json')).resolve('astro');
+}
+
+/**
+ * Generates the real `astro:content` module from the project's Astro template,
+ * the same way Astro's own content plugin does for server environments.
+ */
+function buildContentRuntime(root: string) {
+  const astroDir = dirname(dirname(resolveProjectAstro(root)));
+  const template = readFileSync(join(astroDir, 'templates/content/module.mjs'), 'utf-8');
+  const liveConfigFile = ['src/live.config.ts', 'src/live.config.js', 'src/live.config.mjs']
+    .map((file) => join(root, file))
+    .find(existsSync);
+
+  return template.replace(
+    '/* @@LIVE_CONTENT_CONFIG@@ */',
+    liveConfigFile
+      ? `const liveCollections = (await import(${JSON.stringify(liveConfigFile)})).collections;`
+      : 'const liveCollections = {};'
+  );
+}
+
+/**
+ * Generates the module exporting the Markdown settings for the render server bundle.
+ * Plugins given by package name are bundled. Settings holding functions, like plugins
+ * passed as functions or Shiki transformers, can't be written into the bundle and
+ * are left out with a warning.
+ */
+function buildMarkdownConfigModule(markdownConfig: MarkdownConfig | undefined, warn: (message: string) => void) {
+  if (!markdownConfig) {
+    return 'export default undefined;';
+  }
+
+  const imports: string[] = [];
+  const omitted = new Set<string>();
+  const holdsFunction = (value: unknown): boolean =>
+    typeof value === 'function' ||
+    (typeof value === 'object' && value !== null && Object.values(value).some(holdsFunction));
+  const serialize = (value: unknown) =>
+    JSON.stringify(value, (key, nested) => {
+      if (typeof nested === 'function') {
+        omitted.add(key);
+
+        return undefined;
+      }
+
+      // Entries like Shiki transformers are left out whole rather than emptied
+      if (Array.isArray(nested) && nested.some(holdsFunction)) {
+        omitted.add(key);
+
+        return nested.filter((element) => !holdsFunction(element));
+      }
+
+      return nested;
+    });
+  const importPlugins = (key: 'remarkPlugins' | 'rehypePlugins', plugins: MarkdownConfig[typeof key]) =>
+    plugins.flatMap((plugin) => {
+      const [entry, options] = Array.isArray(plugin) ? plugin : [plugin];
+
+      if (typeof entry !== 'string') {
+        omitted.add(key);
+
+        return [];
+      }
+
+      const name = `plugin${imports.length}`;
+
+      imports.push(`import ${name} from ${JSON.stringify(entry)};`);
+
+      return [Array.isArray(plugin) ? `[${name}, ${serialize(options)}]` : name];
+    });
+
+  const { remarkPlugins, rehypePlugins, ...settings } = markdownConfig;
+  const remarkPluginsCode = importPlugins('remarkPlugins', remarkPlugins).join(', ');
+  const rehypePluginsCode = importPlugins('rehypePlugins', rehypePlugins).join(', ');
+  const code = `${imports.join('\n')}
+export default {
+  ...${serialize(settings)},
+  remarkPlugins: [${remarkPluginsCode}],
+  rehypePlugins: [${rehypePluginsCode}]
+};
+`;
+
+  if (omitted.size > 0) {
+    warn(
+      `Markdown settings holding functions (${Array.from(omitted).join(', ')}) can't be bundled into the render server. ` +
+        'Content fixtures it renders leave them out; pass plugins by package name to keep them.'
+    );
+  }
+
+  return code;
+}
+
+/**
+ * Generates the `astro:content` wrapper. Collections listed in the current render's
+ * fixtures are served from them; everything else is delegated to the real module.
+ */
+function buildContentWrapper(
+  root: string,
+  runtimeModuleId: string,
+  markdownConfigModuleId: string,
+  fixturesModulePath: string
+) {
+  // Not a dependency of the project itself, so resolved from where its Astro install finds it
+  const markdownRemarkPath = createRequire(resolveProjectAstro(root)).resolve('@astrojs/markdown-remark');
+
+  return `
+import * as content from ${JSON.stringify(runtimeModuleId)};
+import { createComponent, render as renderTemplate, unescapeHTML } from 'astro/runtime/server/index.js';
+import { createMarkdownProcessor } from ${JSON.stringify(markdownRemarkPath)};
+import markdownConfig from ${JSON.stringify(markdownConfigModuleId)};
+import { getContentFixtures } from ${JSON.stringify(fixturesModulePath)};
+
+export * from ${JSON.stringify(runtimeModuleId)};
+
+const FIXTURE = Symbol.for('storybook-astro.content-fixture');
+let markdownProcessor;
+
+function getFixtureEntries(collection) {
+  const fixtures = getContentFixtures();
+
+  if (!Object.hasOwn(fixtures, collection)) {
+    return undefined;
+  }
+
+  return fixtures[collection].map((fixture) => ({
+    id: fixture.id,
+    collection,
+    data: fixture.data ?? {},
+    body: fixture.body,
+    [FIXTURE]: true
+  }));
+}
+
+export async function getCollection(collection, filter) {
+  const entries = getFixtureEntries(collection);
+
+  if (!entries) {
+    return content.getCollection(collection, filter);
+  }
+
+  return filter ? entries.filter(filter) : entries;
+}
+
+export async function getEntry(collectionOrReference, id) {
+  const reference = typeof collectionOrReference === 'string'
+    ? { collection: collectionOrReference, id }
+    : collectionOrReference;
+  const entries = getFixtureEntries(reference.collection);
+
+  if (!entries) {
+    return content.getEntry(collectionOrReference, id);
+  }
+
+  return entries.find((entry) => entry.id === reference.id);
+}
+
+export async function getEntries(references) {
+  return Promise.all(references.map((reference) => getEntry(reference)));
+}
+
+export async function render(entry) {
+  if (!entry?.[FIXTURE]) {
+    return content.render(entry);
+  }
+
+  markdownProcessor ??= createMarkdownProcessor(markdownConfig);
+
+  const { code, metadata } = await (await markdownProcessor).render(entry.body ?? '');
+  const Content = createComponent(() => renderTemplate\`\${unescapeHTML(code)}\`);
+
+  return {
+    Content,
+    headings: metadata.headings,
+    remarkPluginFrontmatter: metadata.frontmatter
+  };
+}
+`;
+}
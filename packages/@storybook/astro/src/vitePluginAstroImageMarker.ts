@@ -0,0 +1,56 @@
+import type { PluginOption } from 'vite';
+import { ASTRO_IMAGE_MARKER } from '@storybook/astro-renderer/serialization';
+
+const IMAGE_MODULE_REGEX = /\.(jpe?g|png|tiff?|webp|gif|svg|avif)$/i;
+
+/**
+ * Vite plugin that marks images imported in Storybook's client bundle so they can be
+ * optimized by `astro:assets` when passed as story args.
+ *
+ * On the client, Astro's assets plugin turns an image import into plain `ImageMetadata`
+ * JSON. Once sent to the internal server as an arg it is indistinguishable from any
+ * other object with a `src`, and it has lost the `fsPath` that `<Image>` and
+ * `<Picture>` need to optimize it. This plugin adds the image's file path under
+ * `ASTRO_IMAGE_MARKER`, so the render handler can swap the arg for the real
+ * `ImageMetadata` imported through the internal server.
+ *
+ * Static builds don't need the marker: stories are pre-rendered from modules loaded
+ * on the server, where image imports are real `ImageMetadata` with an `fsPath`.
+ */
+export function vitePluginAstroImageMarker(): PluginOption {
+  return {
+    name: 'storybook-astro-image-marker',
+    apply: 'serve',
+    enforce: 'post',
+
+    transform(code: string, id: string) {
+      if (!IMAGE_MODULE_REGEX.test(id)) {
+        return null;
+      }
+
+      // Only image imports handled by Astro's assets plugin (`export default {"src":...}`)
+      const match = code.match(/^export default (\{[\s\S]*\})\s*;?\s*$/);
+
+      if (!match) {
+        return null;
+      }
+
+      let imageMetadata: Record<string, unknown>;
+
+      try {
+        imageMetadata = JSON.parse(match[1]);
+      } catch {
+        return null;
+      }
+
+      if (typeof imageMetadata.src !== 'string') {
+        return null;
+      }
+
+      return {
+        code: `export default ${JSON.stringify({ ...imageMetadata, [ASTRO_IMAGE_MARKER]: id })};`,
+        map: null
+      };
+    }
+  };
+}
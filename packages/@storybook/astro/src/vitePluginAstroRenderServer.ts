@@ -0,0 +1,104 @@
+import { fileURLToPath } from 'node:url';
+import { join, resolve } from 'node:path';
+import { build, type Logger, type Plugin } from 'vite';
+import type { FrameworkOptions } from './types.ts';
+import { RENDER_ENDPOINT_ROUTE } from './renderEndpoint.ts';
+import { createRenderViteConfig } from './viteStorybookAstroMiddlewarePlugin.ts';
+
+// Modules the canvas can send for rendering: Astro components, and framework
+// components passed as slots
+const RENDER_MODULE_REGEX = /\.(astro|jsx|tsx|vue|svelte)$/;
+const STORY_MODULE_REGEX = /\.stories\.(jsx?|tsx?|mjs)$/;
+
+// Directory of the static build the render server is emitted into
+const RENDER_SERVER_DIR = 'server';
+
+/**
+ * Vite plugin that emits a render server next to the static Storybook when the
+ * `renderServer` framework option is set.
+ *
+ * How it works:
+ * 1. Collects the components story files import, directly or through other
+ *    modules (e.g. barrel files), which are the ones stories can render (see
+ *    `viteAstroRenderModulesPlugin`)
+ * 2. After the client build, builds `renderServer.ts` with Astro's Vite config
+ *    into `<outputDir>/server/index.mjs`, bundling the render handler and
+ *    the collected components with their dependencies
+ * 3. Tells the renderer, through `import.meta.env`, to send renders that have
+ *    no pre-rendered HTML to the render server instead of showing a fallback
+ *
+ * `sharp` is not bundled, so image optimization needs it installed where the
+ * server runs.
+ */
+export function vitePluginAstroRenderServer(options: FrameworkOptions): Plugin {
+  const modules = new Set<string>();
+  let outDir = '';
+  let logger: Logger | undefined;
+
+  return {
+    name: 'storybook-astro-render-server',
+    apply: 'build',
+
+    config() {
+      return {
+        define: {
+          'import.meta.env.STORYBOOK_ASTRO_RENDER_ENDPOINT': JSON.stringify(RENDER_ENDPOINT_ROUTE)
+        }
+      };
+    },
+
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir);
+      logger = config.logger;
+    },
+
+    buildEnd() {
+      const pending = Array.from(this.getModuleIds()).filter((id) => STORY_MODULE_REGEX.test(id));
+      const visited = new Set(pending);
+
+      // Components are not descended into; what they import is bundled with them
+      while (pending.length > 0) {
+        const info = this.getModuleInfo(pending.pop()!);
+
+        for (const id of [...(info?.importedIds ?? []), ...(info?.dynamicallyImportedIds ?? [])]) {
+          if (visited.has(id) || id.startsWith('\0') || id.includes('/node_modules/')) {
+            continue;
+          }
+
+          visited.add(id);
+
+          if (RENDER_MODULE_REGEX.test(id)) {
+            modules.add(id);
+          } else {
+            pending.push(id);
+          }
+        }
+      }
+    },
+
+    async closeBundle() {
+      const config = await createRenderViteConfig(options, 'build', Array.from(modules));
+
+      await build({
+        ...config,
+        publicDir: false,
+        logLevel: 'warn',
+        // Self-contained apart from sharp, which loads a native binary
+        ssr: { noExternal: true, external: ['sharp'] },
+        build: {
+          ssr: fileURLToPath(new URL('./renderServer.ts', import.meta.url)),
+          ssrEmitAssets: true,
+          outDir: join(outDir, RENDER_SERVER_DIR),
+          emptyOutDir: true,
+          rollupOptions: {
+            output: { entryFileNames: 'index.mjs' }
+          }
+        }
+      });
+
+      logger?.info(
+        `[storybook-astro] Render server emitted, start it with: node ${join(outDir, RENDER_SERVER_DIR, 'index.mjs')}`
+      );
+    }
+  };
+}
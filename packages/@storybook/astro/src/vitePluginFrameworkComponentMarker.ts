@@ -0,0 +1,115 @@
+import MagicString from 'magic-string';
+import type { PluginOption } from 'vite';
+import type { $FIXME } from './types';
+import { COMPONENT_MODULE_MARKER } from '@storybook/astro-renderer/serialization';
+
+const FRAMEWORK_COMPONENT_REGEX = /\.(jsx|tsx|vue|svelte)$/;
+const EXCLUDED_MODULE_REGEX = /\/node_modules\/|\.(stories|test|spec)\.[jt]sx?$/;
+const DEFAULT_EXPORT_LOCAL = '__storybook_astro_default__';
+
+/**
+ * Vite plugin that records where framework components (React, Vue, Svelte, ...)
+ * come from, so they can be used as slot content of Astro stories.
+ *
+ * Slot components are rendered by the internal server, which needs to import
+ * them, and hydrated islands need the module URL and export name. A component
+ * function or object carries neither, so this plugin tags every export of a
+ * framework component module with `{ moduleId, exportName }` under
+ * `COMPONENT_MODULE_MARKER` (non-enumerable, so it doesn't show up as a prop or
+ * in docs).
+ *
+ * Used both in Storybook's client build and in the internal server, where
+ * static builds load story modules for pre-rendering.
+ */
+export function vitePluginFrameworkComponentMarker(): PluginOption {
+  return {
+    name: 'storybook-astro-framework-component-marker',
+    enforce: 'post',
+
+    transform(code: string, id: string) {
+      if (!FRAMEWORK_COMPONENT_REGEX.test(id) || EXCLUDED_MODULE_REGEX.test(id)) {
+        return null;
+      }
+
+      let ast;
+
+      try {
+        ast = this.parse(code);
+      } catch {
+        return null;
+      }
+
+      const exports = new Map<string, string>();
+      const transformed = new MagicString(code);
+
+      for (const node of ast.body as Array<Record<string, $FIXME>>) {
+        if (node.type === 'ExportNamedDeclaration' && !node.source) {
+          collectNamedExports(node, exports);
+        } else if (node.type === 'ExportDefaultDeclaration') {
+          const declaration = node.declaration;
+
+          if (declaration.type === 'Identifier') {
+            exports.set('default', declaration.name);
+          } else if (declaration.id?.name) {
+            exports.set('default', declaration.id.name);
+          } else {
+            // Anonymous default export (e.g. Vue's `export default _export_sfc(...)`):
+            // bind it to a local so it can be tagged
+            transformed.overwrite(node.start, declaration.start, `const ${DEFAULT_EXPORT_LOCAL} = `);
+            transformed.appendLeft(node.end, `;\nexport default ${DEFAULT_EXPORT_LOCAL};`);
+            exports.set('default', DEFAULT_EXPORT_LOCAL);
+          }
+        }
+      }
+
+      if (exports.size === 0) {
+        return null;
+      }
+
+      const marks = Array.from(exports, ([exportName, local]) =>
+        `__storybookAstroMark(${local}, ${JSON.stringify(exportName)});`
+      );
+
+      transformed.append(`
+function __storybookAstroMark(value, exportName) {
+  if ((typeof value === 'function' || (typeof value === 'object' && value !== null)) &&
+    Object.isExtensible(value) && !Object.hasOwn(value, ${JSON.stringify(COMPONENT_MODULE_MARKER)})) {
+    Object.defineProperty(value, ${JSON.stringify(COMPONENT_MODULE_MARKER)}, {
+      value: { moduleId: ${JSON.stringify(id)}, exportName }
+    });
+  }
+}
+${marks.join('\n')}
+`);
+
+      return {
+        code: transformed.toString(),
+        map: transformed.generateMap({ hires: true })
+      };
+    }
+  };
+}
+
+/**
+ * Collects `export const/function/class` declarations and local `export { a as b }`
+ * specifiers as exported name → local binding.
+ */
+function collectNamedExports(node: Record<string, $FIXME>, exports: Map<string, string>) {
+  const { declaration, specifiers = [] } = node;
+
+  if (declaration?.type === 'VariableDeclaration') {
+    for (const declarator of declaration.declarations) {
+      if (declarator.id.type === 'Identifier') {
+        exports.set(declarator.id.name, declarator.id.name);
+      }
+    }
+  } else if (declaration?.id?.name) {
+    exports.set(declaration.id.name, declaration.id.name);
+  }
+
+  for (const specifier of specifiers) {
+    if (specifier.local.type === 'Identifier') {
+      exports.set(specifier.exported.name ?? specifier.exported.value, specifier.local.name);
+    }
+  }
+}
@@ -1,20 +1,60 @@
 import { fileURLToPath } from 'node:url';
-import { createServer, type PluginOption, type ViteDevServer } from 'vite';
-import type { RenderRequestMessage, RenderResponseMessage } from '@storybook/astro-renderer/types';
+import {
+  createServer,
+  isFileLoadingAllowed,
+  normalizePath,
+  type EnvironmentModuleNode,
+  type InlineConfig,
+  type NormalizedHotChannelClient,
+  type PluginOption,
+  type ViteDevServer
+} from 'vite';
+import type { AstroConfig, AstroIntegration } from 'astro';
+import type {
+  RenderCancelMessage,
+  RenderInvalidateMessage,
+  RenderPayloadMessage,
+  RenderRequestMessage,
+  RenderResponseMessage
+} from '@storybook/astro-renderer/types';
 import type { FrameworkOptions } from './types.ts';
-import type { Integration } from './integrations/index.ts';
+import type { TransformImage } from './middleware.ts';
+import { createRenderError } from './renderError.ts';
+import { createRenderEndpoint, RENDER_ENDPOINT_ROUTE } from './renderEndpoint.ts';
 import { viteAstroContainerRenderersPlugin } from './viteAstroContainerRenderersPlugin.ts';
+import { viteAstroArgSerializersPlugin } from './viteAstroArgSerializersPlugin.ts';
+import { viteAstroRenderModulesPlugin } from './viteAstroRenderModulesPlugin.ts';
 import { vitePluginAstroFontsFallback } from './vitePluginAstroFontsFallback.ts';
+import { vitePluginAstroContent } from './vitePluginAstroContent.ts';
+import { vitePluginFrameworkComponentMarker } from './vitePluginFrameworkComponentMarker.ts';
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  svg: 'image/svg+xml'
+};
+
+// Render responses larger than this are fetched over HTTP instead of being sent
+// through the websocket, which would hold up HMR updates until they're delivered
+const MAX_WEBSOCKET_PAYLOAD_BYTES = 64 * 1024;
+const RENDER_PAYLOAD_ROUTE = '/__storybook_astro/payload';
+// Payloads that are never fetched (e.g. the tab was closed) are dropped after this
+const RENDER_PAYLOAD_TTL_MS = 30_000;
+
+const ASTRO_STYLE_MODULE_REGEX = /\.astro\?astro&type=style&/;
+
+// Plugin of the render handler's Vite config that holds the resolved Astro config
+const ASTRO_CONFIG_PLUGIN = 'storybook-astro:astro-config';
 
 export async function vitePluginStorybookAstroMiddleware(options: FrameworkOptions) {
   // The internal Vite server is created lazily inside configureServer (dev-only).
   // During builds, configureServer never fires, so no server is created.
   let viteServer: ViteDevServer | null = null;
+  let transformImage: TransformImage | null = null;
 
   const vitePlugin = {
     name: 'storybook-astro-middleware-plugin',
     async configureServer(server) {
-      viteServer = await createViteServer(options.integrations);
+      viteServer = await createViteServer(options);
 
       const filePath = fileURLToPath(new URL('./middleware', import.meta.url));
       const middleware = await viteServer.ssrLoadModule(filePath, {
@@ -22,52 +62,142 @@ export async function vitePluginStorybookAstroMiddleware(options: FrameworkOptio
       });
       const handler = await middleware.handlerFactory(options.integrations);
 
-      server.ws.on('astro:render:request', async (data: RenderRequestMessage['data']) => {
+      transformImage = middleware.transformImage;
+
+      // Renders in progress by request id, aborted when the canvas that requested them cancels them
+      const pendingRenders = new Map<string, { client: NormalizedHotChannelClient; controller: AbortController }>();
+      // Serialized responses too large for the websocket, by request id
+      const renderPayloads = new Map<string, string>();
+
+      // Responses only go to the client that requested the render
+      const sendRenderResponse = (client: NormalizedHotChannelClient, data: RenderResponseMessage['data']) => {
+        const payload = JSON.stringify(data);
+
+        if (Buffer.byteLength(payload) <= MAX_WEBSOCKET_PAYLOAD_BYTES) {
+          client.send('astro:render:response', data);
+
+          return;
+        }
+
+        renderPayloads.set(data.id, payload);
+        setTimeout(() => renderPayloads.delete(data.id), RENDER_PAYLOAD_TTL_MS).unref();
+        client.send('astro:render:response', {
+          id: data.id,
+          payloadUrl: `${RENDER_PAYLOAD_ROUTE}/${encodeURIComponent(data.id)}`
+        } satisfies RenderPayloadMessage['data']);
+      };
+
+      server.middlewares.use(RENDER_PAYLOAD_ROUTE, (req, res) => {
+        const id = decodeURIComponent((req.url ?? '').replace(/^\/|\?.*$/g, ''));
+        const payload = renderPayloads.get(id);
+
+        if (payload === undefined) {
+          res.statusCode = 404;
+          res.end();
+
+          return;
+        }
+
+        renderPayloads.delete(id);
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Cache-Control', 'no-store');
+        res.end(payload);
+      });
+
+      server.middlewares.use(RENDER_ENDPOINT_ROUTE, createRenderEndpoint({ handler, viteServer }));
+
+      server.ws.on('astro:render:cancel', ({ id }: RenderCancelMessage['data'], client) => {
+        const pending = pendingRenders.get(id);
+
+        // Ids come from the clients, so one client can't cancel another's renders
+        if (pending && pending.client === client) {
+          pending.controller.abort();
+        }
+      });
+
+      server.ws.on('astro:render:request', async (data: RenderRequestMessage['data'], client) => {
+        const controller = new AbortController();
+
+        pendingRenders.set(data.id, { client, controller });
+
         try {
-          const html = await handler(data);
+          const { html, cookies } = await handler(data, { signal: controller.signal });
 
-          server.ws.send('astro:render:response', {
-            html,
-            id: data.id
-          } satisfies RenderResponseMessage['data']);
+          // Nobody is waiting for a cancelled render
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          sendRenderResponse(client, { html, cookies, id: data.id });
         } catch (err) {
-          const errorMessage = err instanceof Error ? err.message : String(err);
-          const errorStack = err instanceof Error ? err.stack : '';
-          console.error('[storybook-astro] Render error:', errorMessage);
-          if (errorStack) console.error(errorStack);
-          server.ws.send('astro:render:response', {
-            id: data.id,
-            html:
-              '<div style="background: #d73838; padding: 12px; color: #f0f0f0; font-family: monospace; border-radius: 4px">' +
-              '<strong>Error rendering Astro component</strong><br/>' +
-              '<pre style="white-space: pre-wrap; margin-top: 8px; font-size: 12px">' +
-              errorMessage.replace(/</g, '&lt;').replace(/>/g, '&gt;') +
-              '</pre></div>'
-          } satisfies RenderResponseMessage['data']);
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          const error = createRenderError(err, data.component, viteServer);
+
+          console.error(`[storybook-astro] Render error in ${error.component}:`, error.stack ?? error.message);
+          sendRenderResponse(client, { id: data.id, html: '', error });
+        } finally {
+          pendingRenders.delete(data.id);
         }
       });
+    },
+
+    // Runs for Storybook's own (client) environment. Changes to anything the
+    // internal server has rendered are applied there right away, and canvases
+    // showing an affected story re-render it instead of reloading the iframe.
+    hotUpdate({ file, modules, timestamp }) {
+      if (this.environment.name !== 'client' || !viteServer) {
+        return;
+      }
+
+      const files = invalidateRenderModules(viteServer, file, timestamp);
+
+      if (files.length === 0) {
+        return;
+      }
+
+      this.environment.hot.send('astro:render:invalidate', { files } satisfies RenderInvalidateMessage['data']);
+
+      // In the browser an .astro file is a stub importing its styles. Updating the
+      // stub would reload the story modules importing it, so only styles go through
+      // Vite's HMR and the canvas renders the new markup.
+      if (file.endsWith('.astro')) {
+        return modules.filter((mod) => mod.id && ASTRO_STYLE_MODULE_REGEX.test(mod.id));
+      }
     }
   } satisfies PluginOption;
 
-  // Create asset serving plugin (only active in dev when viteServer exists)
+  // Create asset serving plugin (only active in dev when viteServer exists).
+  // Serves the /_image URLs that astro:assets generates while rendering, using
+  // the image service of the internal server.
   const assetServingPlugin = {
     name: 'storybook-astro-assets',
     configureServer(server) {
-      server.middlewares.use('/_image', (req, res, next) => {
-        if (!viteServer) {
+      server.middlewares.use('/_image', async (req, res, next) => {
+        if (!transformImage) {
           next();
           return;
         }
-        // Forward the request to the Astro vite server
-        viteServer.middlewares.handle(req, res, (err) => {
-          if (err) {
-            console.error('Asset serving error:', err);
-            next();
-          }
-        });
+
+        try {
+          const { data, format } = await transformImage(req.originalUrl ?? req.url ?? '', {
+            // Vite's `server.fs` rules, as for files served through `/@fs`
+            isFileAllowed: (path) => isFileLoadingAllowed(server.config, normalizePath(path))
+          });
+
+          res.setHeader('Content-Type', IMAGE_CONTENT_TYPES[format] ?? `image/${format}`);
+          res.setHeader('Cache-Control', 'public, max-age=31536000');
+          res.end(data);
+        } catch (err) {
+          console.error('[storybook-astro] Image optimization error:', err instanceof Error ? err.message : err);
+          res.statusCode = 500;
+          res.end('Could not process image request');
+        }
       });
     }
-  };
+  } satisfies PluginOption;
 
   // The extracted CSS plugins from Astro's internal Vite server cause Vue SFC
   // <style> blocks to be double-processed (once by these plugins, once by
@@ -89,33 +219,100 @@ export async function vitePluginStorybookAstroMiddleware(options: FrameworkOptio
   };
 }
 
-export async function createViteServer(integrations: Integration[]) {
+/**
+ * Invalidates the internal server's modules for a changed file (Vite carries the
+ * invalidation on to their importers), so the next render loads fresh code even
+ * before the internal server's own watcher has picked up the change. Returns the
+ * changed file and all files importing it, or nothing when the internal server
+ * never loaded the file.
+ */
+function invalidateRenderModules(viteServer: ViteDevServer, file: string, timestamp: number): string[] {
+  const { moduleGraph } = viteServer.environments.ssr;
+  const changed = Array.from(moduleGraph.getModulesByFile(file) ?? []);
+  const invalidated = new Set<EnvironmentModuleNode>();
+  const affected = new Set<EnvironmentModuleNode>();
+  const pending = [...changed];
+
+  changed.forEach((mod) => moduleGraph.invalidateModule(mod, invalidated, timestamp, true));
+
+  while (pending.length > 0) {
+    const mod = pending.pop()!;
+
+    if (!affected.has(mod)) {
+      affected.add(mod);
+      pending.push(...mod.importers);
+    }
+  }
+
+  return Array.from(new Set(Array.from(affected, (mod) => mod.file).filter((path) => path !== null)));
+}
+
+export async function createViteServer(options: FrameworkOptions) {
+  const viteServer = await createServer(await createRenderViteConfig(options, 'serve'));
+
+  // Initialize the server's plugin container to ensure all plugins are ready.
+  // Without this, some plugins (like vite:css) may have uninitialized state
+  // when ssrLoadModule is called.
+  await viteServer.pluginContainer.buildStart({});
+
+  return viteServer;
+}
+
+/**
+ * Creates the Vite config the render handler runs with: Astro's Vite config for
+ * `command` plus the virtual modules the handler imports. The internal server
+ * uses it to serve, the render server bundle to build. With `modules`, only
+ * those modules can be rendered (see `viteAstroRenderModulesPlugin`).
+ */
+export async function createRenderViteConfig(
+  { integrations, serializers }: FrameworkOptions,
+  command: 'serve' | 'build',
+  modules?: string[]
+): Promise<InlineConfig> {
   const { getViteConfig } = await import('astro/config');
+  let astroConfig: AstroConfig | undefined;
 
   const config = await getViteConfig(
     {},
     {
       configFile: false,
-      integrations: await Promise.all(
-        integrations.map((integration) => integration.loadIntegration())
-      )
+      integrations: [
+        ...(await Promise.all(integrations.map((integration) => integration.loadIntegration()))),
+        {
+          // Captures the config as resolved after all integrations ran, e.g. the
+          // Markdown settings fixture entries of `astro:content` are rendered with
+          name: 'storybook-astro:config',
+          hooks: {
+            'astro:config:done': ({ config: resolvedConfig }) => {
+              astroConfig = resolvedConfig;
+            }
+          }
+        } satisfies AstroIntegration
+      ]
     }
-  )({ mode: 'development', command: 'serve' });
+  )({ mode: command === 'build' ? 'production' : 'development', command });
 
-  const viteServer = await createServer({
+  return {
     configFile: false,
     ...config,
     plugins: [
+      // Resolves astro:content ahead of Astro's own content plugin
+      vitePluginAstroContent(integrations, astroConfig?.markdown),
       ...(config.plugins?.filter(Boolean) ?? []),
       viteAstroContainerRenderersPlugin(integrations),
-      vitePluginAstroFontsFallback()
+      viteAstroArgSerializersPlugin(serializers),
+      viteAstroRenderModulesPlugin(modules),
+      vitePluginAstroFontsFallback(),
+      // Story modules loaded for pre-rendering pass framework components as slots
+      vitePluginFrameworkComponentMarker(),
+      { name: ASTRO_CONFIG_PLUGIN, api: { astroConfig } }
     ]
-  });
-
-  // Initialize the server's plugin container to ensure all plugins are ready.
-  // Without this, some plugins (like vite:css) may have uninitialized state
-  // when ssrLoadModule is called.
-  await viteServer.pluginContainer.buildStart({});
+  };
+}
 
-  return viteServer;
+/**
+ * Returns the Astro config resolved for a server created by `createViteServer`.
+ */
+export function getAstroConfig(viteServer: ViteDevServer): AstroConfig | undefined {
+  return viteServer.config.plugins.find(({ name }) => name === ASTRO_CONFIG_PLUGIN)?.api?.astroConfig;
 }
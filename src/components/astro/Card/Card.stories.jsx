@@ -1,4 +1,7 @@
 import Card from './Card.astro';
+import Layout from '../../../layouts/Layout.astro';
+import Greeting from '../Greeting/Greeting.astro';
+import CounterReact from '../../react/Counter/Counter.jsx';
 
 export default {
   title: 'Astro/Card',
@@ -14,4 +17,48 @@ export const Highlight = {
     content: 'This card has the highlight state enabled.',
     highlight: true,
   },
+  parameters: {
+    astro: {
+      // Lets Controls toggle the highlight in static builds
+      prerenderArgs: {
+        highlight: [true, false],
+      },
+    },
+  },
+};
+
+export const InLayout = {
+  args: {
+    title: 'Card in a Layout',
+    content: 'This card is wrapped in the site layout.',
+  },
+  parameters: {
+    layout: 'fullscreen',
+    astro: {
+      layout: {
+        component: Layout,
+        args: { title: 'Card in a Layout' },
+      },
+    },
+  },
+};
+
+export const WithReactCounter = {
+  args: {
+    title: 'Card with a React Counter',
+    content: 'The counter is rendered on the server and hydrated in the browser.',
+    slots: {
+      main: { component: CounterReact, client: 'load' },
+    },
+  },
+};
+
+export const WithGreeting = {
+  args: {
+    title: 'Card with a Greeting',
+    content: 'Astro components can be slot content too.',
+    slots: {
+      main: [{ component: Greeting }, '<p>Thanks for stopping by.</p>'],
+    },
+  },
 };
@@ -1,8 +1,10 @@
 import { composeStories } from '@storybook/astro';
 import { testStoryRenders, testStoryComposition } from '@storybook/astro/testing';
 import * as stories from './Card.stories.jsx';
+import CounterReact from '../../react/Counter/Counter.jsx';
+import Greeting from '../Greeting/Greeting.astro';
 
-const { Default, Highlight } = composeStories(stories);
+const { Default, Highlight, InLayout, WithReactCounter, WithGreeting } = composeStories(stories);
 
 // Test basic composition
 testStoryComposition('Default', Default);
@@ -13,6 +15,30 @@ testStoryComposition('Highlight', Highlight, {
   highlight: true,
 });
 
+testStoryComposition('InLayout', InLayout, {
+  title: 'Card in a Layout',
+  content: 'This card is wrapped in the site layout.',
+});
+
+testStoryComposition('WithReactCounter', WithReactCounter, {
+  title: 'Card with a React Counter',
+  content: 'The counter is rendered on the server and hydrated in the browser.',
+  slots: {
+    main: { component: CounterReact, client: 'load' },
+  },
+});
+
+testStoryComposition('WithGreeting', WithGreeting, {
+  title: 'Card with a Greeting',
+  content: 'Astro components can be slot content too.',
+  slots: {
+    main: [{ component: Greeting }, '<p>Thanks for stopping by.</p>'],
+  },
+});
+
 // Test actual rendering capability
 testStoryRenders('Card Default', Default);
 testStoryRenders('Card Highlight', Highlight);
+testStoryRenders('Card In Layout', InLayout);
+testStoryRenders('Card With React Counter', WithReactCounter);
+testStoryRenders('Card With Greeting', WithGreeting);
@@ -0,0 +1,20 @@
+import EventCard from './EventCard.astro';
+
+export default {
+  title: 'Astro/EventCard',
+  component: EventCard,
+  args: {
+    title: 'Astro Meetup',
+    startsAt: new Date('2026-05-14T18:00:00Z'),
+    website: new URL('https://astro.build/community'),
+  },
+};
+
+export const Default = {};
+
+export const WithTags = {
+  args: {
+    tags: new Set(['Astro', 'Storybook', 'Components']),
+    capacity: 120,
+  },
+};
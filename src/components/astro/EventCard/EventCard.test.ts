@@ -0,0 +1,19 @@
+import { composeStories } from '@storybook/astro';
+import { testStoryRenders, testStoryComposition } from '@storybook/astro/testing';
+import * as stories from './EventCard.stories.jsx';
+
+const { Default, WithTags } = composeStories(stories);
+
+// Test basic composition
+testStoryComposition('Default', Default);
+testStoryComposition('WithTags', WithTags, {
+  title: 'Astro Meetup',
+  startsAt: new Date('2026-05-14T18:00:00Z'),
+  website: new URL('https://astro.build/community'),
+  tags: new Set(['Astro', 'Storybook', 'Components']),
+  capacity: 120,
+});
+
+// Test rendering capability
+testStoryRenders('EventCard Default', Default);
+testStoryRenders('EventCard WithTags', WithTags);
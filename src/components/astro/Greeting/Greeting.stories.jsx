@@ -0,0 +1,30 @@
+import Greeting from './Greeting.astro';
+
+export default {
+  title: 'Astro/Greeting',
+  component: Greeting,
+  args: {},
+};
+
+export const Default = {};
+
+export const ReturningVisitor = {
+  parameters: {
+    astro: {
+      cookies: {
+        name: 'Ada',
+        visited: 'true',
+      },
+    },
+  },
+};
+
+export const German = {
+  parameters: {
+    astro: {
+      headers: {
+        'accept-language': 'de-DE,de;q=0.9',
+      },
+    },
+  },
+};
@@ -0,0 +1,15 @@
+import { composeStories } from '@storybook/astro';
+import { testStoryRenders, testStoryComposition } from '@storybook/astro/testing';
+import * as stories from './Greeting.stories.jsx';
+
+const { Default, ReturningVisitor, German } = composeStories(stories);
+
+// Test basic composition
+testStoryComposition('Default', Default);
+testStoryComposition('ReturningVisitor', ReturningVisitor);
+testStoryComposition('German', German);
+
+// Test rendering capability
+testStoryRenders('Greeting Default', Default);
+testStoryRenders('Greeting ReturningVisitor', ReturningVisitor);
+testStoryRenders('Greeting German', German);
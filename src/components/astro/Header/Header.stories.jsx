@@ -12,3 +12,12 @@ export default {
 export const Default = {
   args: {},
 };
+
+export const AboutActive = {
+  args: {},
+  parameters: {
+    astro: {
+      url: '/about',
+    },
+  },
+};
@@ -2,10 +2,12 @@ import { composeStories } from '@storybook/astro';
 import { testStoryRenders, testStoryComposition } from '@storybook/astro/testing';
 import * as stories from './Header.stories.jsx';
 
-const { Default } = composeStories(stories);
+const { Default, AboutActive } = composeStories(stories);
 
 // Test basic composition
 testStoryComposition('Default', Default);
+testStoryComposition('AboutActive', AboutActive);
 
 // Test rendering capability
 testStoryRenders('Header Default', Default);
+testStoryRenders('Header AboutActive', AboutActive);
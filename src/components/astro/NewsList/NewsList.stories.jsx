@@ -0,0 +1,44 @@
+import NewsList from './NewsList.astro';
+
+export default {
+  title: 'Astro/NewsList',
+  component: NewsList,
+  args: {},
+};
+
+// Reads the project's real `news` collection from src/content
+export const Default = {};
+
+export const WithFixtures = {
+  args: {
+    limit: 2,
+  },
+  parameters: {
+    astro: {
+      content: {
+        news: [
+          {
+            id: 'fixture-release',
+            data: { title: 'A fixture release', date: '2026-03-01' },
+            body: 'This entry comes from the story, **not** from `src/content`.',
+          },
+          {
+            id: 'fixture-roadmap',
+            data: { title: 'A fixture roadmap', date: '2026-02-01' },
+            body: '- Content collections\n- Fixture entries\n- Rendered Markdown',
+          },
+        ],
+      },
+    },
+  },
+};
+
+export const Empty = {
+  parameters: {
+    astro: {
+      content: {
+        news: [],
+      },
+    },
+  },
+};
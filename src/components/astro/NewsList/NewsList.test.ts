@@ -0,0 +1,15 @@
+import { composeStories } from '@storybook/astro';
+import { testStoryRenders, testStoryComposition } from '@storybook/astro/testing';
+import * as stories from './NewsList.stories.jsx';
+
+const { Default, WithFixtures, Empty } = composeStories(stories);
+
+// Test basic composition
+testStoryComposition('Default', Default);
+testStoryComposition('WithFixtures', WithFixtures, { limit: 2 });
+testStoryComposition('Empty', Empty);
+
+// Test rendering capability
+testStoryRenders('NewsList Default', Default);
+testStoryRenders('NewsList WithFixtures', WithFixtures);
+testStoryRenders('NewsList Empty', Empty);
@@ -0,0 +1,25 @@
+import Layout from './Layout.astro';
+
+export default {
+  title: 'Astro/Layout',
+  component: Layout,
+  parameters: {
+    layout: 'fullscreen',
+    astro: {
+      document: true,
+    },
+  },
+  args: {},
+};
+
+export const Default = {
+  args: {
+    title: 'Layout Story',
+    slots: {
+      default: `
+        <h1>Page Content</h1>
+        <p>The layout's head content (title, meta and stylesheet links) is moved into the preview's head.</p>
+      `,
+    },
+  },
+};
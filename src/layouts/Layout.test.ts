@@ -0,0 +1,11 @@
+import { composeStories } from '@storybook/astro';
+import { testStoryRenders, testStoryComposition } from '@storybook/astro/testing';
+import * as stories from './Layout.stories.jsx';
+
+const { Default } = composeStories(stories);
+
+// Test basic composition
+testStoryComposition('Default', Default);
+
+// Test rendering capability
+testStoryRenders('Layout Default', Default);